@@ -3,6 +3,13 @@ import powerbiVisualsConfigs from "eslint-plugin-powerbi-visuals";
 export default [
     powerbiVisualsConfigs.configs.recommended,
     {
-        ignores: ["node_modules/**", "dist/**", ".vscode/**", ".tmp/**"],
+        ignores: ["node_modules/**", "dist/**", ".vscode/**", ".tmp/**", "src/routeWorkerSource.js"],
     },
-];
\ No newline at end of file
+    {
+        // Command-line tools run under Node with user-supplied paths, not inside the visual sandbox
+        files: ["scripts/**"],
+        rules: {
+            "powerbi-visuals/non-literal-fs-path": "off",
+        },
+    },
+];
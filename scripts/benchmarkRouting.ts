@@ -0,0 +1,236 @@
+/**
+ * Benchmark the routing engine against the original implementation it replaced: a linear
+ * scan for the nearest node and an A* search with a set-based open set over an adjacency
+ * map rebuilt for every route.
+ *
+ * Usage: npm run benchmark -- [graph.bin|graph.json] [--size 200] [--routes 10] [--snaps 200] [--seed 1]
+ *
+ * Without a graph file, a synthetic grid of size x size nodes is generated from the seed,
+ * so runs are reproducible.
+ */
+
+import * as fs from "fs";
+import { performance } from "perf_hooks";
+import { decodeGraphBinary, isGraphBinary } from "../src/graphBinary";
+import { calculateRoute, Coordinate, findNearestNode, GraphData, prepareGraph } from "../src/routingUtils";
+
+interface BenchmarkOptions {
+    graphFile: string | undefined;
+    size: number;
+    routes: number;
+    snaps: number;
+    seed: number;
+}
+
+function parseArgs(args: string[]): BenchmarkOptions {
+    const options: BenchmarkOptions = { graphFile: undefined, size: 200, routes: 10, snaps: 200, seed: 1 };
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        if (arg === "--size" || arg === "--routes" || arg === "--snaps" || arg === "--seed") {
+            const value = Number(args[++i]);
+            if (!Number.isInteger(value) || value <= 0) {
+                throw new Error(`${arg} needs a positive whole number`);
+            }
+            options[arg.slice(2) as "size" | "routes" | "snaps" | "seed"] = value;
+        } else {
+            options.graphFile = arg;
+        }
+    }
+    return options;
+}
+
+/**
+ * Small seeded random number generator (mulberry32), returning values in [0, 1)
+ */
+function seededRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * A grid of two-way roads about 100 m apart, with jittered nodes and mixed speeds
+ */
+function gridGraph(size: number, random: () => number): GraphData {
+    const nodes: GraphData["nodes"] = {};
+    const edges: GraphData["edges"] = [];
+    for (let row = 0; row < size; row++) {
+        for (let col = 0; col < size; col++) {
+            const id = row * size + col + 1;
+            nodes[id] = { id, lat: 51.4 + row * 0.0009 + random() * 0.0002, lon: -0.3 + col * 0.0014 + random() * 0.0002 };
+        }
+    }
+    const road = (from: number, to: number) => {
+        const length = 100 + random() * 20;
+        const maxspeed = [30, 50, 80][Math.floor(random() * 3)];
+        const travel_time = length / (maxspeed / 3.6);
+        edges.push({ from, to, length, travel_time, maxspeed }, { from: to, to: from, length, travel_time, maxspeed });
+    };
+    for (let row = 0; row < size; row++) {
+        for (let col = 0; col < size; col++) {
+            const id = row * size + col + 1;
+            if (col + 1 < size) {
+                road(id, id + 1);
+            }
+            if (row + 1 < size) {
+                road(id, id + size);
+            }
+        }
+    }
+    return { nodes, edges, node_count: size * size, edge_count: edges.length };
+}
+
+function readGraph(file: string): GraphData {
+    const contents = fs.readFileSync(file);
+    const buffer = contents.buffer.slice(contents.byteOffset, contents.byteOffset + contents.byteLength);
+    return isGraphBinary(buffer) ? decodeGraphBinary(buffer) : JSON.parse(contents.toString("utf8")) as GraphData;
+}
+
+function haversineKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+    const toRadians = (degrees: number) => degrees * Math.PI / 180;
+    const a = Math.sin(toRadians(lat2 - lat1) / 2) ** 2 +
+        Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(toRadians(lon2 - lon1) / 2) ** 2;
+    return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+/**
+ * The original nearest-node lookup: a haversine distance to every node
+ */
+function baselineNearestNode(graph: GraphData, point: Coordinate): number {
+    let minDistance = Infinity;
+    let nearest = -1;
+    for (const key in graph.nodes) {
+        const node = graph.nodes[key];
+        const distance = haversineKm(point.lat, point.lon, node.lat, node.lon);
+        if (distance < minDistance) {
+            minDistance = distance;
+            nearest = node.id;
+        }
+    }
+    return nearest;
+}
+
+/**
+ * The original route search: A* with a linear scan of the open set for its best node,
+ * over an adjacency map built for every route. Returns the number of nodes on the path.
+ */
+function baselineRoute(graph: GraphData, start: Coordinate, end: Coordinate): number {
+    const startNode = baselineNearestNode(graph, start);
+    const endNode = baselineNearestNode(graph, end);
+    const adjacency = new Map<number, Array<{ node: number; weight: number }>>();
+    for (const edge of graph.edges) {
+        if (!adjacency.has(edge.from)) {
+            adjacency.set(edge.from, []);
+        }
+        adjacency.get(edge.from)!.push({ node: edge.to, weight: edge.travel_time > 0 ? edge.travel_time : edge.length });
+    }
+    const goal = graph.nodes[endNode];
+    const heuristic = (nodeId: number) => {
+        const node = graph.nodes[nodeId];
+        return haversineKm(node.lat, node.lon, goal.lat, goal.lon) / 50 * 3600;
+    };
+
+    const gScore = new Map<number, number>([[startNode, 0]]);
+    const fScore = new Map<number, number>([[startNode, heuristic(startNode)]]);
+    const previous = new Map<number, number>();
+    const openSet = new Set<number>([startNode]);
+    const closedSet = new Set<number>();
+    while (openSet.size > 0) {
+        let current = -1;
+        let minF = Infinity;
+        for (const node of openSet) {
+            const f = fScore.get(node) ?? Infinity;
+            if (f < minF) {
+                minF = f;
+                current = node;
+            }
+        }
+        if (current === endNode) {
+            let length = 1;
+            for (let node = current; previous.has(node); node = previous.get(node)!) {
+                length++;
+            }
+            return length;
+        }
+        openSet.delete(current);
+        closedSet.add(current);
+        for (const neighbor of adjacency.get(current) || []) {
+            if (closedSet.has(neighbor.node)) {
+                continue;
+            }
+            const tentative = gScore.get(current)! + neighbor.weight;
+            if (tentative >= (gScore.get(neighbor.node) ?? Infinity)) {
+                continue;
+            }
+            openSet.add(neighbor.node);
+            previous.set(neighbor.node, current);
+            gScore.set(neighbor.node, tentative);
+            fScore.set(neighbor.node, tentative + heuristic(neighbor.node));
+        }
+    }
+    return 0;
+}
+
+function time(run: () => void): number {
+    const started = performance.now();
+    run();
+    return performance.now() - started;
+}
+
+function main(args: string[]): void {
+    const options = parseArgs(args);
+    const random = seededRandom(options.seed);
+    const graph = options.graphFile ? readGraph(options.graphFile) : gridGraph(options.size, random);
+    const nodes = Object.keys(graph.nodes).map(key => graph.nodes[key]);
+    let minLat = Infinity, maxLat = -Infinity, minLon = Infinity, maxLon = -Infinity;
+    for (const node of nodes) {
+        minLat = Math.min(minLat, node.lat);
+        maxLat = Math.max(maxLat, node.lat);
+        minLon = Math.min(minLon, node.lon);
+        maxLon = Math.max(maxLon, node.lon);
+    }
+    const randomPoint = (): Coordinate => ({
+        lat: minLat + random() * (maxLat - minLat),
+        lon: minLon + random() * (maxLon - minLon)
+    });
+    const routes = Array.from({ length: options.routes }, () => [randomPoint(), randomPoint()]);
+    const snaps = Array.from({ length: options.snaps }, randomPoint);
+
+    console.log(`Graph: ${nodes.length} nodes, ${graph.edges.length} edges${options.graphFile ? ` from ${options.graphFile}` : " (synthetic grid)"}`);
+    console.log(`Node ${process.version}, ${options.routes} random routes, ${options.snaps} snaps, seed ${options.seed}`);
+
+    let baselineFound = 0;
+    let currentFound = 0;
+    const baselineRoutes = time(() => {
+        for (const [start, end] of routes) {
+            baselineFound += baselineRoute(graph, start, end) > 0 ? 1 : 0;
+        }
+    });
+    const indexBuild = time(() => prepareGraph(graph));
+    const currentRoutes = time(() => {
+        for (const [start, end] of routes) {
+            try {
+                calculateRoute(graph, start, end);
+                currentFound++;
+            } catch {
+                // Unreachable pairs count as not found
+            }
+        }
+    });
+    const baselineSnaps = time(() => snaps.forEach(point => baselineNearestNode(graph, point)));
+    const currentSnaps = time(() => snaps.forEach(point => findNearestNode(graph, point)));
+
+    const format = (ms: number) => `${ms.toFixed(0)} ms`;
+    const speedup = (before: number, after: number) => `${(before / Math.max(after, 0.001)).toFixed(1)}x`;
+    console.log(`routes: baseline ${format(baselineRoutes)} (${baselineFound} found), ` +
+        `current ${format(currentRoutes)} + ${format(indexBuild)} index build (${currentFound} found), ` +
+        `${speedup(baselineRoutes, currentRoutes + indexBuild)} faster`);
+    console.log(`snaps:  baseline ${format(baselineSnaps)}, current ${format(currentSnaps)}, ${speedup(baselineSnaps, currentSnaps)} faster`);
+}
+
+main(process.argv.slice(2));
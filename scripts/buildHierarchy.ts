@@ -0,0 +1,36 @@
+/**
+ * Preprocess a graph file into a contraction hierarchy, stored next to it as <name>.ch.bin
+ *
+ * Usage: npm run build-hierarchy -- <graph.bin|graph.json> [output.ch.bin]
+ */
+
+import * as fs from "fs";
+import { encodeContractionHierarchy } from "../src/contractionHierarchy";
+import { decodeGraphBinary, isGraphBinary } from "../src/graphBinary";
+import { contractGraph, GraphData } from "../src/routingUtils";
+
+function main(args: string[]): void {
+    const [input, output = input.replace(/\.(bin|json)$/i, "") + ".ch.bin"] = args;
+
+    if (!input) {
+        console.error("Usage: npm run build-hierarchy -- <graph.bin|graph.json> [output.ch.bin]");
+        process.exit(1);
+    }
+
+    // Read the graph the same way the visual does, so the hierarchy matches its edge costs
+    const file = fs.readFileSync(input);
+    const buffer = file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength);
+    const graph: GraphData = isGraphBinary(buffer)
+        ? decodeGraphBinary(buffer)
+        : JSON.parse(file.toString("utf8")) as GraphData;
+
+    const started = Date.now();
+    const hierarchy = contractGraph(graph);
+    const encoded = encodeContractionHierarchy(hierarchy);
+    fs.writeFileSync(output, new Uint8Array(encoded));
+
+    const shortcuts = hierarchy.arcEdges.filter(edge => edge === -1).length;
+    console.log(`Wrote ${output}: ${encoded.byteLength} bytes, ${shortcuts} shortcuts, built in ${((Date.now() - started) / 1000).toFixed(1)} s`);
+}
+
+main(process.argv.slice(2));
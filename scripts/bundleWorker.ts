@@ -0,0 +1,73 @@
+/**
+ * Bundle the route worker and its imports into one script, written to src/routeWorkerSource.js
+ * as a string the visual starts its worker from (through a Blob URL). The packaged visual is a
+ * single script, so a worker script of its own would not be shipped with it.
+ *
+ * Usage: npm run bundle-worker (also run before npm start and npm run package)
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import * as ts from "typescript";
+
+const ENTRY = path.resolve("src/routeWorker.ts");
+const OUTPUT = path.resolve("src/routeWorkerSource.js");
+
+/**
+ * Minimal loader for the named AMD modules TypeScript writes into a single output file
+ */
+const AMD_LOADER = `var define, require;
+(function () {
+    var factories = {};
+    var modules = {};
+    define = function (name, dependencies, factory) {
+        factories[name] = { dependencies: dependencies, factory: factory };
+    };
+    require = function load(name) {
+        if (!modules[name]) {
+            var module = modules[name] = { exports: {} };
+            var entry = factories[name];
+            entry.factory.apply(null, entry.dependencies.map(function (dependency) {
+                return dependency === "require" ? load : dependency === "exports" ? module.exports : load(dependency);
+            }));
+        }
+        return modules[name].exports;
+    };
+})();
+`;
+
+function main(): void {
+    const program = ts.createProgram([ENTRY], {
+        target: ts.ScriptTarget.ES2022,
+        module: ts.ModuleKind.AMD,
+        outFile: "routeWorker.js",
+        lib: ["lib.es2022.d.ts", "lib.dom.d.ts"],
+        types: [],
+        esModuleInterop: true,
+        skipLibCheck: true
+    });
+
+    let bundle = "";
+    const result = program.emit(undefined, (fileName, text) => {
+        if (fileName.endsWith(".js")) {
+            bundle = text;
+        }
+    });
+    const diagnostics = ts.getPreEmitDiagnostics(program).concat(result.diagnostics);
+    if (diagnostics.length > 0 || !bundle) {
+        console.error(ts.formatDiagnostics(diagnostics, {
+            getCanonicalFileName: fileName => fileName,
+            getCurrentDirectory: () => process.cwd(),
+            getNewLine: () => "\n"
+        }));
+        process.exit(1);
+    }
+
+    const script = `${AMD_LOADER}${bundle}\nrequire("routeWorker");\n`;
+    fs.writeFileSync(OUTPUT,
+        "// Generated by npm run bundle-worker from src/routeWorker.ts and its imports; do not edit\n" +
+        `export const ROUTE_WORKER_SOURCE = ${JSON.stringify(script)};\n`);
+    console.log(`Wrote ${path.relative(process.cwd(), OUTPUT)}: ${script.length} characters`);
+}
+
+main();
@@ -0,0 +1,28 @@
+/**
+ * Convert an osm_graph.json export into the compact binary graph format
+ *
+ * Usage: npm run convert-graph -- <input.json> [output.bin] [--quantise]
+ */
+
+import * as fs from "fs";
+import { encodeGraphBinary } from "../src/graphBinary";
+import { GraphData } from "../src/routingUtils";
+
+function main(args: string[]): void {
+    const quantise = args.includes("--quantise");
+    const [input, output = input.replace(/\.json$/i, "") + ".bin"] = args.filter(arg => !arg.startsWith("--"));
+
+    if (!input) {
+        console.error("Usage: npm run convert-graph -- <input.json> [output.bin] [--quantise]");
+        process.exit(1);
+    }
+
+    const graph = JSON.parse(fs.readFileSync(input, "utf8")) as GraphData;
+    const buffer = encodeGraphBinary(graph, { quantise });
+    fs.writeFileSync(output, new Uint8Array(buffer));
+
+    const inputBytes = fs.statSync(input).size;
+    console.log(`Wrote ${output}: ${buffer.byteLength} bytes (${Math.round(100 * buffer.byteLength / inputBytes)}% of ${input})`);
+}
+
+main(process.argv.slice(2));
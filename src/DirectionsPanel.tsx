@@ -0,0 +1,110 @@
+/**
+ * Side panel listing turn-by-turn directions for the calculated routes
+ */
+
+import * as React from "react";
+import { formatDistance, formatDuration } from "./routingUtils";
+import { CalculatedRoute } from "./routeWorkerProtocol";
+import { buildDirections, DirectionStep, Maneuver } from "./directions";
+
+/**
+ * Width of the expanded panel in pixels
+ */
+export const DIRECTIONS_PANEL_WIDTH = 260;
+
+/**
+ * Width of the collapsed panel, leaving room for the toggle
+ */
+export const DIRECTIONS_PANEL_COLLAPSED_WIDTH = 24;
+
+const MANEUVER_ICONS: { [maneuver in Maneuver]: string } = {
+    depart: "●",
+    straight: "↑",
+    slightLeft: "↖",
+    left: "←",
+    sharpLeft: "↙",
+    slightRight: "↗",
+    right: "→",
+    sharpRight: "↘",
+    uturn: "↶",
+    waypoint: "◆",
+    arrive: "⚑"
+};
+
+export interface DirectionsPanelProps {
+    routes: CalculatedRoute[];
+    expanded: boolean;
+    onToggle: () => void;
+    /** Called with the hovered step's route and step, or null when the pointer leaves the list */
+    onHighlight: (route: CalculatedRoute | null, step: DirectionStep | null) => void;
+    height: number;
+}
+
+export const DirectionsPanel: React.FC<DirectionsPanelProps> = (props) => {
+    const { routes, expanded, onToggle, onHighlight, height } = props;
+    const [selectedRoute, setSelectedRoute] = React.useState(0);
+
+    const routeIndex = selectedRoute < routes.length ? selectedRoute : 0;
+    const route = routes[routeIndex];
+    const steps = React.useMemo(() => route ? buildDirections(route.result) : [], [route]);
+
+    return (
+        <div
+            style={{
+                width: expanded ? DIRECTIONS_PANEL_WIDTH : DIRECTIONS_PANEL_COLLAPSED_WIDTH,
+                height,
+                display: "flex",
+                flexDirection: "column",
+                boxSizing: "border-box",
+                borderLeft: "1px solid #ccc",
+                background: "#fff",
+                fontSize: 12
+            }}
+        >
+            <div
+                style={{ padding: "6px 6px", fontWeight: "bold", cursor: "pointer", whiteSpace: "nowrap" }}
+                onClick={onToggle}
+                title={expanded ? "Hide directions" : "Show directions"}
+            >
+                {expanded ? "▸ Directions" : "◂"}
+            </div>
+            {expanded && routes.length > 1 && (
+                <select
+                    style={{ margin: "0 6px 6px" }}
+                    value={routeIndex}
+                    onChange={event => setSelectedRoute(Number(event.target.value))}
+                >
+                    {routes.map((candidate, candidateIndex) => (
+                        <option key={candidateIndex} value={candidateIndex}>{candidate.request.label}</option>
+                    ))}
+                </select>
+            )}
+            {expanded && route && (
+                <div style={{ padding: "0 6px 6px", color: "#666" }}>
+                    {formatDistance(route.result.totalDistance)}, {formatDuration(route.result.totalTime)}
+                </div>
+            )}
+            {expanded && (
+                <div style={{ flex: 1, overflowY: "auto" }} onMouseLeave={() => onHighlight(null, null)}>
+                    {steps.map((step, stepIndex) => (
+                        <div
+                            key={stepIndex}
+                            style={{ display: "flex", gap: 6, padding: "4px 6px", borderTop: "1px solid #eee", cursor: "default" }}
+                            onMouseEnter={() => onHighlight(route, step)}
+                        >
+                            <span style={{ width: 14, textAlign: "center" }}>{MANEUVER_ICONS[step.maneuver]}</span>
+                            <span style={{ flex: 1 }}>
+                                {step.instruction}
+                                {step.distance > 0 && (
+                                    <div style={{ color: "#666" }}>
+                                        {formatDistance(step.distance)}, {formatDuration(step.time)}
+                                    </div>
+                                )}
+                            </span>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
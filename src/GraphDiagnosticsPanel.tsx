@@ -0,0 +1,60 @@
+/**
+ * Overlay listing the problems found when validating the loaded graph
+ */
+
+import * as React from "react";
+import { GraphDiagnostics } from "./graphValidation";
+
+export interface GraphDiagnosticsPanelProps {
+    diagnostics: GraphDiagnostics;
+}
+
+export const GraphDiagnosticsPanel: React.FC<GraphDiagnosticsPanelProps> = (props) => {
+    const { diagnostics } = props;
+    const [expanded, setExpanded] = React.useState(false);
+
+    if (diagnostics.issues.length === 0) {
+        return null;
+    }
+
+    const hasErrors = diagnostics.issues.some(issue => issue.severity === "error");
+
+    return (
+        <div
+            style={{
+                maxWidth: 360,
+                padding: "6px 10px",
+                fontSize: 12,
+                background: "rgba(255, 255, 255, 0.95)",
+                border: `1px solid ${hasErrors ? "#d32f2f" : "#f9a825"}`,
+                borderRadius: 4
+            }}
+        >
+            <div
+                style={{ fontWeight: "bold", cursor: "pointer" }}
+                onClick={() => setExpanded(!expanded)}
+                title={expanded ? "Hide graph diagnostics" : "Show graph diagnostics"}
+            >
+                {expanded ? "▾" : "▸"} Road graph: {diagnostics.issues.length} {diagnostics.issues.length === 1 ? "issue" : "issues"}
+            </div>
+            {expanded && (
+                <div style={{ marginTop: 4 }}>
+                    <div style={{ color: "#666" }}>
+                        {diagnostics.nodeCount} nodes, {diagnostics.edgeCount} edges, {diagnostics.componentCount} connected {diagnostics.componentCount === 1 ? "part" : "parts"}
+                    </div>
+                    {diagnostics.issues.map(issue => (
+                        <div key={issue.code} style={{ marginTop: 4 }}>
+                            <span style={{ color: issue.severity === "error" ? "#d32f2f" : "#b26a00", fontWeight: "bold" }}>
+                                {issue.severity === "error" ? "Error" : "Warning"}:
+                            </span>{" "}
+                            {issue.message}
+                            {issue.examples.length > 0 && (
+                                <div style={{ color: "#666" }}>e.g. {issue.examples.join(", ")}</div>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,127 @@
+/**
+ * Overlay summarising the distance and travel time of the calculated routes
+ */
+
+import * as React from "react";
+import { formatDistance, formatDuration, formatTimeOfWeek, RouteResult } from "./routingUtils";
+import { ProfileTravelTime } from "./routeWorkerProtocol";
+import { VEHICLE_PROFILE_IDS, VEHICLE_PROFILES, VehicleProfileId } from "./vehicleProfiles";
+
+export type SummaryPosition = "topLeft" | "topRight" | "bottomLeft" | "bottomRight";
+
+export interface RouteSummaryOptions {
+    show: boolean;
+    position: SummaryPosition;
+    showDistance: boolean;
+    showTime: boolean;
+    /** List the travel time of every vehicle profile under the travel time */
+    compareProfiles: boolean;
+    fontSize: number;
+}
+
+/**
+ * Optimised visiting order of one route and what it saves against the input order
+ */
+export interface StopOrderSummary {
+    label: string;
+    order: string;
+    /** Seconds saved against the input order */
+    timeSaved: number;
+    /** Metres saved against the input order */
+    distanceSaved: number;
+}
+
+export interface RouteSummaryProps {
+    results: RouteResult[];
+    stopOrders: StopOrderSummary[];
+    /** Travel times of each route for every vehicle profile, when profiles are compared */
+    profileTimes: ProfileTravelTime[][];
+    /** Profile the routes were calculated for */
+    vehicle: VehicleProfileId;
+    options: RouteSummaryOptions;
+}
+
+/**
+ * Total travel time of the routes for one profile, or null when a route cannot be made with it
+ */
+function totalProfileTime(profileTimes: ProfileTravelTime[][], vehicle: VehicleProfileId): number | null {
+    let total = 0;
+    for (const routeTimes of profileTimes) {
+        const travelTime = routeTimes.find(profileTime => profileTime.vehicle === vehicle)?.travelTime;
+        if (travelTime === undefined || travelTime === null) {
+            return null;
+        }
+        total += travelTime;
+    }
+    return total;
+}
+
+export const RouteSummary: React.FC<RouteSummaryProps> = (props) => {
+    const { results, stopOrders, profileTimes, vehicle, options } = props;
+
+    if (!options.show || results.length === 0 || (!options.showDistance && !options.showTime)) {
+        return null;
+    }
+
+    const totalDistance = results.reduce((total, result) => total + result.totalDistance, 0);
+    const totalTime = results.reduce((total, result) => total + result.totalTime, 0);
+    const timeSaved = stopOrders.reduce((total, stopOrder) => total + stopOrder.timeSaved, 0);
+    const distanceSaved = stopOrders.reduce((total, stopOrder) => total + stopOrder.distanceSaved, 0);
+    const arrivalTimes = results.map(result => result.arrivalTime).filter(arrivalTime => arrivalTime !== undefined);
+
+    const positionStyle: React.CSSProperties = {
+        top: options.position.startsWith("top") ? 8 : undefined,
+        bottom: options.position.startsWith("bottom") ? 8 : undefined,
+        left: options.position.endsWith("Left") ? 8 : undefined,
+        right: options.position.endsWith("Right") ? 8 : undefined
+    };
+
+    return (
+        <div
+            style={{
+                position: "absolute",
+                ...positionStyle,
+                padding: "6px 10px",
+                fontSize: options.fontSize,
+                background: "rgba(255, 255, 255, 0.9)",
+                border: "1px solid #ccc",
+                borderRadius: 4,
+                pointerEvents: "none"
+            }}
+        >
+            {results.length > 1 && (
+                <div style={{ fontWeight: "bold" }}>{results.length} routes</div>
+            )}
+            {options.showDistance && (
+                <div>Distance: {formatDistance(totalDistance)}</div>
+            )}
+            {options.showTime && (
+                <div>Travel time: {formatDuration(totalTime)}</div>
+            )}
+            {options.showTime && arrivalTimes.length > 0 && (
+                <div>{results.length > 1 ? "Last arrival" : "Arrives"}: {formatTimeOfWeek(Math.max(...arrivalTimes))}</div>
+            )}
+            {options.showTime && options.compareProfiles && profileTimes.length === results.length && (
+                <div style={{ marginTop: 2 }}>
+                    {VEHICLE_PROFILE_IDS.map(profileId => {
+                        // The current profile shows the chosen routes, which may be alternatives
+                        const travelTime = profileId === vehicle ? totalTime : totalProfileTime(profileTimes, profileId);
+                        return (
+                            <div key={profileId} style={{ fontWeight: profileId === vehicle ? "bold" : undefined }}>
+                                {VEHICLE_PROFILES[profileId].label}: {travelTime === null ? "no route" : formatDuration(travelTime)}
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+            {stopOrders.length === 1 && (
+                <div>Order: {stopOrders[0].order}</div>
+            )}
+            {stopOrders.length > 0 && (
+                <div>
+                    Saves {formatDuration(Math.max(timeSaved, 0))}, {formatDistance(Math.max(distanceSaved, 0))} vs input order
+                </div>
+            )}
+        </div>
+    );
+};
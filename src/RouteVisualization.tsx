@@ -4,49 +4,889 @@
 
 import * as React from "react";
 import Plot from "react-plotly.js";
-import { calculateRoute, Coordinate, GraphData } from "./routingUtils";
+import { AlternativeRouteOptions, Coordinate, formatDistance, formatDuration, formatTimeOfWeek, IsochroneResult, RouteResult, RoutingOptions } from "./routingUtils";
+import { dashPolyline, simplifyPolyline } from "./polyline";
+import { RouteSummary, RouteSummaryOptions, StopOrderSummary } from "./RouteSummary";
+import { GraphDiagnosticsPanel } from "./GraphDiagnosticsPanel";
+import { GraphDiagnostics } from "./graphValidation";
+import { DirectionsPanel, DIRECTIONS_PANEL_COLLAPSED_WIDTH, DIRECTIONS_PANEL_WIDTH } from "./DirectionsPanel";
+import { DirectionStep } from "./directions";
+import { attachMarkerEditing, Endpoint, getPlotMap } from "./markerEditing";
+import { CalculatedRoute, ComputeProgress, IsochroneOptions, RouteRequest, StopOrderOptions } from "./routeWorkerProtocol";
+import { CancelledError, RouteWorkerClient } from "./routeWorkerClient";
 import * as Plotly from "plotly.js";
 
+/**
+ * Isochrone band colours, from the nearest band to the farthest
+ */
+const ISOCHRONE_COLORS = ["#1a9850", "#91cf60", "#d9ef8b", "#fee08b", "#fc8d59", "#d73027"];
+
+/**
+ * Lines are simplified until no dropped point is further than this from the drawn line, in screen pixels
+ */
+const SIMPLIFY_TOLERANCE_PX = 1;
+
+export type LineDash = "solid" | "dot" | "dash" | "longdash" | "dashdot";
+export type MarkerLabels = "none" | "waypoints" | "all";
+export type BaseMap = "open-street-map" | "carto-positron" | "carto-darkmatter" | "blank";
+
+/**
+ * How route lines, markers and the map are drawn
+ */
+export interface MapStyleOptions {
+    /** One colour for every route line, or null for each route's own colour */
+    lineColor: string | null;
+    lineWidth: number;
+    /** From 0 to 1 */
+    lineOpacity: number;
+    lineDash: LineDash;
+    startColor: string;
+    endColor: string;
+    waypointColor: string;
+    /** Start and end marker size in pixels */
+    markerSize: number;
+    waypointSize: number;
+    labels: MarkerLabels;
+    baseMap: BaseMap;
+    /** Colour of the blank base map */
+    background: string;
+    /** Colour of legend and label text */
+    foreground: string;
+    /** Colour of the directions step highlighted on the map */
+    highlightColor: string;
+    showLegend: boolean;
+    showToolbar: boolean;
+    /** Show the export buttons, when the visual may download files */
+    showExport: boolean;
+}
+
+export const DEFAULT_MAP_STYLE: MapStyleOptions = {
+    lineColor: null,
+    lineWidth: 4,
+    lineOpacity: 1,
+    lineDash: "solid",
+    startColor: "green",
+    endColor: "red",
+    waypointColor: "orange",
+    markerSize: 15,
+    waypointSize: 12,
+    labels: "waypoints",
+    baseMap: "open-street-map",
+    background: "#ffffff",
+    foreground: "#333333",
+    highlightColor: "rgba(255, 214, 0, 0.9)",
+    showLegend: true,
+    showToolbar: true,
+    showExport: true
+};
+
+/**
+ * Dash and gap lengths of each line style, in line widths
+ */
+const DASH_PATTERNS: { [dash in LineDash]: number[] } = {
+    solid: [],
+    dot: [1, 1],
+    dash: [3, 3],
+    longdash: [5, 5],
+    dashdot: [3, 1, 1, 1]
+};
+
+/**
+ * Degrees of latitude covered by one screen pixel at a map zoom level and latitude (512 px Mercator tiles)
+ */
+function degreesPerPixel(zoom: number, latitude: number): number {
+    return 360 * Math.cos(latitude * Math.PI / 180) / (512 * Math.pow(2, zoom));
+}
+
+/**
+ * Plotly mapbox style for a base map. The blank map is a single background layer, so it
+ * needs no map tiles; only marker labels load their font from the web.
+ */
+function mapboxStyle(style: MapStyleOptions): string {
+    if (style.baseMap !== "blank") {
+        return style.baseMap;
+    }
+    const blank = {
+        version: 8,
+        sources: {},
+        layers: [{ id: "background", type: "background", paint: { "background-color": style.background } }],
+        glyphs: "https://fonts.openmaptiles.org/{fontstack}/{range}.pbf"
+    };
+    // Plotly accepts Mapbox style objects, but its typings only allow style names
+    return blank as unknown as string;
+}
+
+/**
+ * Space kept between the fitted points and the edges of the map, in pixels
+ */
+const FIT_PADDING_PX = 40;
+
+/**
+ * Zoom level for a single point, and the closest the map is zoomed in to fit a short route
+ */
+const MAX_FIT_ZOOM = 16;
+
+/**
+ * Latitude limit of the Web Mercator projection
+ */
+const MAX_MERCATOR_LATITUDE = 85.05113;
+
+/**
+ * Web Mercator y of a latitude, from 0 at the top of the world to 1 at the bottom
+ */
+function mercatorY(latitude: number): number {
+    const sin = Math.sin(Math.min(Math.max(latitude, -MAX_MERCATOR_LATITUDE), MAX_MERCATOR_LATITUDE) * Math.PI / 180);
+    return 0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI);
+}
+
+function mercatorLatitude(y: number): number {
+    return 360 / Math.PI * Math.atan(Math.exp((0.5 - y) * 2 * Math.PI)) - 90;
+}
+
+/**
+ * Map center and the Web Mercator zoom level that fits all the points, with padding, into a map
+ * of the given size. Returns `key`, which only changes when the points' bounding box does.
+ */
+function fitMapView(points: Coordinate[], width: number, height: number): { center: Coordinate; zoom: number; key: string } {
+    if (points.length === 0) {
+        return { center: { lat: 0, lon: 0 }, zoom: 1, key: "" };
+    }
+
+    const minLat = points.reduce((min, point) => Math.min(min, point.lat), Infinity);
+    const maxLat = points.reduce((max, point) => Math.max(max, point.lat), -Infinity);
+    const minLon = points.reduce((min, point) => Math.min(min, point.lon), Infinity);
+    const maxLon = points.reduce((max, point) => Math.max(max, point.lon), -Infinity);
+
+    // Bounding box in world units (0 to 1); the world is 512 * 2^zoom pixels wide
+    const spanX = (maxLon - minLon) / 360;
+    const top = mercatorY(maxLat);
+    const bottom = mercatorY(minLat);
+    const spanY = bottom - top;
+    const fitWidth = Math.max(width - 2 * FIT_PADDING_PX, 1);
+    const fitHeight = Math.max(height - 2 * FIT_PADDING_PX, 1);
+    const scale = Math.min(
+        spanX > 0 ? fitWidth / (512 * spanX) : Infinity,
+        spanY > 0 ? fitHeight / (512 * spanY) : Infinity
+    );
+    const zoom = Math.min(Math.max(Math.log2(scale), 0), MAX_FIT_ZOOM);
+
+    return {
+        center: { lat: mercatorLatitude((top + bottom) / 2), lon: (minLon + maxLon) / 2 },
+        zoom,
+        key: [minLat, minLon, maxLat, maxLon].map(value => value.toFixed(6)).join(",")
+    };
+}
+
+/**
+ * Every point drawn for the routes, markers included
+ */
+function routePoints(calculatedRoutes: CalculatedRoute[]): Coordinate[] {
+    const points: Coordinate[] = [];
+    for (const { request, result } of calculatedRoutes) {
+        points.push(...result.coordinates, request.start, request.end, ...request.waypoints);
+    }
+    return points;
+}
+
+/**
+ * Every point drawn for the isochrones, origins included
+ */
+function isochronePoints(isochrones: IsochroneResult[]): Coordinate[] {
+    const points: Coordinate[] = [];
+    for (const isochrone of isochrones) {
+        points.push(isochrone.origin);
+        for (const band of isochrone.bands) {
+            for (const segment of band.segments) {
+                points.push(...segment);
+            }
+        }
+    }
+    return points;
+}
+
+/**
+ * A route's line as drawn: simplified and dashed leg by leg, so every leg keeps its end
+ * points, with the leg each point belongs to. `pixelSize` is the size of a screen pixel in degrees.
+ */
+function routeLine(result: RouteResult, pixelSize: number, style: MapStyleOptions): { points: Array<Coordinate | null>; legIndexes: number[] } {
+    const points: Array<Coordinate | null> = [];
+    const legIndexes: number[] = [];
+    const pattern = DASH_PATTERNS[style.lineDash].map(widths => widths * style.lineWidth * pixelSize);
+    result.legs.forEach((leg, legIndex) => {
+        const legEnd = legIndex + 1 < result.legs.length ? result.legs[legIndex + 1].startIndex : result.coordinates.length - 1;
+        const simplified = simplifyPolyline(result.coordinates.slice(leg.startIndex, legEnd + 1), SIMPLIFY_TOLERANCE_PX * pixelSize);
+        for (const point of dashPolyline(simplified, pattern)) {
+            points.push(point);
+            legIndexes.push(legIndex);
+        }
+    });
+    return { points, legIndexes };
+}
+
+/**
+ * Describe an optimised order in input terms, e.g. "Start → W2 → W1 → End"
+ */
+function describeStopOrder(route: CalculatedRoute): StopOrderSummary | null {
+    if (!route.stopOrder || !route.inputResult) {
+        return null;
+    }
+    const lastStop = route.request.waypoints.length + 1;
+    const names = route.stopOrder.map(stopIndex =>
+        stopIndex === 0 ? "Start" : stopIndex === lastStop ? "End" : `W${stopIndex}`
+    );
+    if (route.stopOrder.length > 0 && route.result.legs.length === route.stopOrder.length) {
+        names.push(names[0]); // Round trip back to the first stop
+    }
+    return {
+        label: route.request.label,
+        order: names.join(" → "),
+        timeSaved: route.inputResult.totalTime - route.result.totalTime,
+        distanceSaved: route.inputResult.totalDistance - route.result.totalDistance
+    };
+}
+
+/**
+ * The route with its chosen option shown as its result: 0 for the best route, i for alternatives[i - 1]
+ */
+function selectRouteOption(route: CalculatedRoute, choice: number): CalculatedRoute {
+    if (!choice || !route.alternatives || choice > route.alternatives.length) {
+        return route;
+    }
+    return { ...route, result: route.alternatives[choice - 1] };
+}
+
+/**
+ * Thin Plotly lines for the options of each route that are not currently chosen, with the
+ * route index and option each trace selects when clicked
+ */
+function buildAlternativeTraces(
+    calculatedRoutes: CalculatedRoute[],
+    choices: number[],
+    pixelSize: number,
+    style: MapStyleOptions
+): { traces: Partial<Plotly.PlotData>[]; picks: Array<{ routeIndex: number; choice: number }> } {
+    const traces: Partial<Plotly.PlotData>[] = [];
+    const picks: Array<{ routeIndex: number; choice: number }> = [];
+    calculatedRoutes.forEach((route, routeIndex) => {
+        if (!route.alternatives || route.alternatives.length === 0) {
+            return;
+        }
+        const chosen = choices[routeIndex] || 0;
+        const shown = selectRouteOption(route, chosen).result;
+        [route.result, ...route.alternatives].forEach((result, choice) => {
+            if (choice === chosen) {
+                return;
+            }
+            const coordinates = simplifyPolyline(result.coordinates, SIMPLIFY_TOLERANCE_PX * pixelSize);
+            const timeDifference = result.totalTime - shown.totalTime;
+            const comparison = `${timeDifference >= 0 ? "+" : "−"}${formatDuration(Math.abs(timeDifference))}`;
+            traces.push({
+                type: "scattermapbox",
+                mode: "lines",
+                lon: coordinates.map(coord => coord.lon),
+                lat: coordinates.map(coord => coord.lat),
+                line: {
+                    width: Math.max(style.lineWidth / 2, 1),
+                    color: style.lineColor ?? route.request.color
+                },
+                opacity: 0.6 * style.lineOpacity,
+                name: choice === 0 ? "Best route" : `Alternative ${choice}`,
+                showlegend: false,
+                hovertemplate: `<b>${route.request.label}</b> (${choice === 0 ? "best route" : `alternative ${choice}`})<br>` +
+                    `Distance: ${formatDistance(result.totalDistance)}<br>` +
+                    `Travel time: ${formatDuration(result.totalTime)} (${comparison})<br>` +
+                    "Click to show this route<extra></extra>"
+            });
+            picks.push({ routeIndex, choice });
+        });
+    });
+    return { traces, picks };
+}
+
+/**
+ * Opacity of routes, relative to their normal opacity, while other routes are selected
+ */
+const DIMMED_OPACITY = 0.3;
+
+/**
+ * Plotly traces for calculated routes: one line per route plus waypoint, start and end markers,
+ * in that order. Lines are simplified to about a pixel, `pixelSize` being the size of a screen
+ * pixel in degrees. While any routes are selected, or another visual highlights some, the
+ * others are dimmed; with `hostTooltips` the report shows route tooltips instead of Plotly's hover labels.
+ */
+function buildRouteTraces(
+    calculatedRoutes: CalculatedRoute[],
+    pixelSize: number,
+    style: MapStyleOptions,
+    selectedRouteIds: string[],
+    highlightedRouteIds: string[] | null,
+    hostTooltips: boolean
+): Partial<Plotly.PlotData>[] {
+    const dimming = (route: CalculatedRoute) =>
+        (selectedRouteIds.length > 0 && !selectedRouteIds.includes(route.request.id)) ||
+        (highlightedRouteIds !== null && !highlightedRouteIds.includes(route.request.id)) ? DIMMED_OPACITY : 1;
+
+    // Routes in the same category share one legend entry, uncategorised routes get their own
+    const legendCategories = new Set<string>();
+    const routeTraces: Partial<Plotly.PlotData>[] = calculatedRoutes.map(route => {
+        const { request, result } = route;
+        const legendGroup = request.category !== undefined ? request.category : request.label;
+        const showInLegend = !legendCategories.has(legendGroup);
+        legendCategories.add(legendGroup);
+
+        const categoryLine = request.category !== undefined ? `Category: ${request.category}<br>` : "";
+        const { points, legIndexes } = routeLine(result, pixelSize, style);
+
+        // Multi-stop routes show the hovered leg's own distance and time
+        const legLines = legIndexes.map(legIndex => {
+            if (result.legs.length < 2) {
+                return "";
+            }
+            const leg = result.legs[legIndex];
+            const arrival = leg.arrivalTime !== undefined ? `, arrives ${formatTimeOfWeek(leg.arrivalTime)}` : "";
+            return `Leg ${legIndex + 1} of ${result.legs.length}: ${formatDistance(leg.totalDistance)}, ${formatDuration(leg.totalTime)}${arrival}<br>`;
+        });
+        const scheduleLines = result.departureTime !== undefined && result.arrivalTime !== undefined
+            ? `<br>Departs: ${formatTimeOfWeek(result.departureTime)}<br>Arrives: ${formatTimeOfWeek(result.arrivalTime)}`
+            : "";
+
+        return {
+            type: "scattermapbox",
+            mode: "lines",
+            lon: points.map(point => point ? point.lon : null),
+            lat: points.map(point => point ? point.lat : null),
+            line: {
+                width: style.lineWidth,
+                color: style.lineColor ?? request.color
+            },
+            opacity: style.lineOpacity * dimming(route),
+            name: legendGroup,
+            legendgroup: legendGroup,
+            showlegend: showInLegend,
+            customdata: legLines,
+            // "none" still reports hover events, for the report's tooltips
+            hoverinfo: hostTooltips ? "none" : undefined,
+            hovertemplate: hostTooltips ? undefined : `<b>${request.label}</b><br>${categoryLine}%{customdata}` +
+                `From: ${request.start.lat.toFixed(5)}, ${request.start.lon.toFixed(5)}<br>` +
+                `To: ${request.end.lat.toFixed(5)}, ${request.end.lon.toFixed(5)}<br>` +
+                `Distance: ${formatDistance(result.totalDistance)}<br>` +
+                `Travel time: ${formatDuration(result.totalTime)}${scheduleLines}<extra></extra>`
+        };
+    });
+
+    // Waypoints are numbered in visiting order within their route
+    const waypointLons: number[] = [];
+    const waypointLats: number[] = [];
+    const waypointNumbers: string[] = [];
+    const waypointLabels: string[] = [];
+    const waypointOpacities: number[] = [];
+    for (const route of calculatedRoutes) {
+        // Optimised routes number their waypoints by visiting position
+        const visitOrder = route.stopOrder
+            ? route.stopOrder.filter(stopIndex => stopIndex >= 1 && stopIndex <= route.request.waypoints.length).map(stopIndex => stopIndex - 1)
+            : route.request.waypoints.map((_, waypointIndex) => waypointIndex);
+        visitOrder.forEach((waypointIndex, position) => {
+            const waypoint = route.request.waypoints[waypointIndex];
+            waypointLons.push(waypoint.lon);
+            waypointLats.push(waypoint.lat);
+            waypointNumbers.push(String(position + 1));
+            waypointLabels.push(route.stopOrder ? `${route.request.label} (input W${waypointIndex + 1})` : route.request.label);
+            waypointOpacities.push(dimming(route));
+        });
+    }
+
+    // With several routes, start and end labels name their route
+    const endpointLabel = (label: string) => calculatedRoutes.length > 1 ? "%{text}" : label;
+    const labelFont = { color: style.foreground, size: 12 };
+
+    return [
+        ...routeTraces,
+        // Waypoints
+        {
+            type: "scattermapbox",
+            mode: style.labels === "none" ? "markers" : "text+markers",
+            lon: waypointLons,
+            lat: waypointLats,
+            text: waypointNumbers,
+            customdata: waypointLabels,
+            textposition: "top right",
+            textfont: labelFont,
+            marker: {
+                size: style.waypointSize,
+                color: style.waypointColor,
+                opacity: waypointOpacities,
+                symbol: "circle"
+            },
+            name: "Waypoints",
+            showlegend: false,
+            hovertemplate: "<b>Waypoint %{text}</b> %{customdata}<br>Lat: %{lat:.6f}<br>Lon: %{lon:.6f}<extra></extra>"
+        },
+        // Start points
+        {
+            type: "scattermapbox",
+            mode: style.labels === "all" ? "text+markers" : "markers",
+            lon: calculatedRoutes.map(route => route.request.start.lon),
+            lat: calculatedRoutes.map(route => route.request.start.lat),
+            text: calculatedRoutes.map(route => route.request.label),
+            texttemplate: endpointLabel("Start"),
+            textposition: "top right",
+            textfont: labelFont,
+            marker: {
+                size: style.markerSize,
+                color: style.startColor,
+                opacity: calculatedRoutes.map(dimming),
+                symbol: "circle"
+            },
+            name: "Start",
+            showlegend: false,
+            hovertemplate: "<b>Start</b> %{text}<br>Lat: %{lat:.6f}<br>Lon: %{lon:.6f}<extra></extra>"
+        },
+        // End points
+        {
+            type: "scattermapbox",
+            mode: style.labels === "all" ? "text+markers" : "markers",
+            lon: calculatedRoutes.map(route => route.request.end.lon),
+            lat: calculatedRoutes.map(route => route.request.end.lat),
+            text: calculatedRoutes.map(route => route.request.label),
+            texttemplate: endpointLabel("End"),
+            textposition: "top right",
+            textfont: labelFont,
+            marker: {
+                size: style.markerSize,
+                color: style.endColor,
+                opacity: calculatedRoutes.map(dimming),
+                symbol: "circle"
+            },
+            name: "End",
+            showlegend: false,
+            hovertemplate: "<b>End</b> %{text}<br>Lat: %{lat:.6f}<br>Lon: %{lon:.6f}<extra></extra>"
+        }
+    ];
+}
+
+/**
+ * Plotly traces for isochrones: one trace per time band, drawn largest first so
+ * nearer bands stay on top, plus the origin markers. Road shapes are simplified to about a pixel,
+ * `pixelSize` being the size of a screen pixel in degrees.
+ */
+function buildIsochroneTraces(isochrones: IsochroneResult[], budgets: number[], pixelSize: number, style: MapStyleOptions): Partial<Plotly.PlotData>[] {
+    const sortedBudgets = [...budgets].sort((a, b) => a - b);
+    const bandTraces: Partial<Plotly.PlotData>[] = sortedBudgets.map((budget, bandIndex) => {
+        // Segments of all origins share one trace, separated by nulls
+        const lons: Array<number | null> = [];
+        const lats: Array<number | null> = [];
+        let roadLength = 0;
+        for (const isochrone of isochrones) {
+            const band = isochrone.bands.find(candidate => candidate.budget === budget);
+            if (!band) {
+                continue;
+            }
+            roadLength += band.roadLength;
+            for (const segment of band.segments) {
+                for (const point of simplifyPolyline(segment, SIMPLIFY_TOLERANCE_PX * pixelSize)) {
+                    lons.push(point.lon);
+                    lats.push(point.lat);
+                }
+                lons.push(null);
+                lats.push(null);
+            }
+        }
+
+        const minutes = Math.round(budget / 60);
+        const color = ISOCHRONE_COLORS[Math.min(
+            Math.round(bandIndex * (ISOCHRONE_COLORS.length - 1) / Math.max(sortedBudgets.length - 1, 1)),
+            ISOCHRONE_COLORS.length - 1
+        )];
+        return {
+            type: "scattermapbox",
+            mode: "lines",
+            lon: lons,
+            lat: lats,
+            line: {
+                width: 3,
+                color
+            },
+            name: `≤ ${minutes} min`,
+            hovertemplate: `<b>Reachable within ${minutes} min</b><br>Road length: ${formatDistance(roadLength)}<extra></extra>`
+        };
+    });
+
+    return [
+        ...bandTraces.reverse(),
+        {
+            type: "scattermapbox",
+            mode: "markers",
+            lon: isochrones.map(isochrone => isochrone.origin.lon),
+            lat: isochrones.map(isochrone => isochrone.origin.lat),
+            marker: {
+                size: style.markerSize,
+                color: style.startColor,
+                symbol: "circle"
+            },
+            name: "Origin",
+            showlegend: false,
+            hovertemplate: "<b>Origin</b><br>Lat: %{lat:.6f}<br>Lon: %{lon:.6f}<extra></extra>"
+        }
+    ];
+}
+
+/**
+ * Plotly trace drawing a directions step over its route: the step's stretch of road,
+ * or a marker for steps at a single point
+ */
+function buildHighlightTrace(route: CalculatedRoute, step: DirectionStep, style: MapStyleOptions): Partial<Plotly.PlotData> {
+    const points = route.result.coordinates.slice(step.startIndex, step.endIndex + 1);
+    return {
+        type: "scattermapbox",
+        mode: points.length > 1 ? "lines" : "markers",
+        lon: points.map(point => point.lon),
+        lat: points.map(point => point.lat),
+        line: {
+            width: style.lineWidth + 5,
+            color: style.highlightColor
+        },
+        marker: {
+            size: style.markerSize + 3,
+            color: style.highlightColor
+        },
+        name: step.instruction,
+        showlegend: false,
+        hoverinfo: "skip"
+    };
+}
+
+/**
+ * Plotly marker for a start or end point being dragged
+ */
+function buildDragTrace(endpoint: Endpoint, point: Coordinate, style: MapStyleOptions): Partial<Plotly.PlotData> {
+    return {
+        type: "scattermapbox",
+        mode: "markers",
+        lon: [point.lon],
+        lat: [point.lat],
+        marker: {
+            size: style.markerSize,
+            color: endpoint === "start" ? style.startColor : style.endColor,
+            opacity: 0.7
+        },
+        name: endpoint === "start" ? "Start" : "End",
+        showlegend: false,
+        hoverinfo: "skip"
+    };
+}
+
+/**
+ * Links the routes on the map to the report: selection, tooltips and the context menu
+ */
+export interface RouteInteractions {
+    /** Ids of the selected routes; while any are selected the other routes are dimmed */
+    selectedRouteIds: string[];
+    /** Ids of the routes highlighted by a selection in another visual, or null; the other routes are dimmed */
+    highlightedRouteIds: string[] | null;
+    /** Show the report's tooltips for routes instead of Plotly's hover labels */
+    hostTooltips: boolean;
+    /** Called with the clicked route's id, or null when the map background is clicked */
+    onSelect: (routeId: string | null, multiSelect: boolean) => void;
+    onHover: (route: CalculatedRoute, event: MouseEvent) => void;
+    onHoverEnd: () => void;
+    /** Called on right-click, with the id of the route under the pointer if there is one */
+    onContextMenu: (routeId: string | null, event: MouseEvent) => void;
+}
+
+/**
+ * File formats the routes can be exported in
+ */
+export type ExportFormat = "geojson" | "gpx" | "csv";
+
+const EXPORT_FORMATS: Array<{ format: ExportFormat; label: string }> = [
+    { format: "geojson", label: "GeoJSON" },
+    { format: "gpx", label: "GPX" },
+    { format: "csv", label: "CSV" }
+];
+
+const OVERLAY_BUTTON_STYLE: React.CSSProperties = {
+    padding: "2px 8px",
+    fontSize: 12,
+    border: "1px solid #ccc",
+    borderRadius: 4,
+    background: "rgba(255, 255, 255, 0.9)",
+    color: "#333",
+    cursor: "pointer"
+};
+
 export interface RouteVisualizationProps {
-    startCoord: Coordinate;
-    endCoord: Coordinate;
-    graphData: GraphData | null;
+    routes: RouteRequest[];
+    routingOptions: RoutingOptions;
+    stopOrderOptions: StopOrderOptions;
+    isochroneOptions: IsochroneOptions;
+    alternativeOptions: AlternativeRouteOptions;
+    summaryOptions: RouteSummaryOptions;
+    mapStyle: MapStyleOptions;
+    worker: RouteWorkerClient;
+    graphReady: boolean;
+    /** Problems found in the loaded graph; null hides the diagnostics overlay */
+    graphDiagnostics: GraphDiagnostics | null;
+    /** Show the turn-by-turn directions panel beside the map */
+    showDirections: boolean;
+    /**
+     * Moves the start or end of the route to a point picked on the map;
+     * null when the endpoints cannot be edited on the map
+     */
+    onMoveEndpoint: ((endpoint: Endpoint, point: Coordinate) => void) | null;
+    interactions: RouteInteractions;
+    /** Downloads the shown routes; null when the report does not allow downloads */
+    onExport: ((format: ExportFormat, routes: CalculatedRoute[]) => void) | null;
     width: number;
     height: number;
 }
 
 export const RouteVisualization: React.FC<RouteVisualizationProps> = (props) => {
-    const { startCoord, endCoord, graphData, width, height } = props;
-    const [routeCoords, setRouteCoords] = React.useState<Coordinate[]>([]);
+    const { routes, routingOptions, stopOrderOptions, isochroneOptions, alternativeOptions, summaryOptions, mapStyle, worker, graphReady, graphDiagnostics, showDirections, onMoveEndpoint, interactions, onExport, width, height } = props;
+    const [calculatedRoutes, setCalculatedRoutes] = React.useState<CalculatedRoute[]>([]);
+    const [isochrones, setIsochrones] = React.useState<IsochroneResult[]>([]);
+    const [failedRoutes, setFailedRoutes] = React.useState<string[]>([]);
+    const [progress, setProgress] = React.useState<ComputeProgress | null>(null);
     const [error, setError] = React.useState<string | null>(null);
     const [loading, setLoading] = React.useState<boolean>(false);
+    // Center and zoom level the user has panned and zoomed the map to, for the fitted view with the same key
+    const [userView, setUserView] = React.useState<{ key: string; center?: Coordinate; zoom?: number } | null>(null);
+    // Incremented by "reset view", so the map is fitted to the routes again
+    const [resetCount, setResetCount] = React.useState<number>(0);
+    // Option shown for each route: 0 for the best route, i for its alternative i
+    const [choices, setChoices] = React.useState<number[]>([]);
+    // Route ids and alternative settings the choices were made for; recalculations for the same keep them
+    const choicesKey = React.useRef<string>("");
+    const [directionsExpanded, setDirectionsExpanded] = React.useState<boolean>(true);
+    const [exportMenuOpen, setExportMenuOpen] = React.useState<boolean>(false);
+    // Directions step under the pointer, drawn over its route
+    const [highlight, setHighlight] = React.useState<{ route: CalculatedRoute; step: DirectionStep } | null>(null);
+    // Endpoint placed by the next click on the map
+    const [placing, setPlacing] = React.useState<Endpoint | null>(null);
+    // Start or end marker being dragged, or dropped and waiting for its new route
+    const [dragPreview, setDragPreview] = React.useState<{ endpoint: Endpoint; point: Coordinate } | null>(null);
+
+    // Map listeners are attached once per map, so they read the latest values through this ref
+    const editing = React.useRef({ routes, isochroneMode: isochroneOptions.enabled, placing, onMoveEndpoint });
+    editing.current = { routes, isochroneMode: isochroneOptions.enabled, placing, onMoveEndpoint };
+    const attachedMap = React.useRef<{ map: unknown; detach: () => void } | null>(null);
+    // Route under the pointer, for the context menu
+    const hoveredRoute = React.useRef<CalculatedRoute | null>(null);
+    // Set when a click lands on a trace, so it is not taken as a click on the background
+    const traceClicked = React.useRef(false);
+    // Other profiles are only routed while the summary shows their times
+    const compareProfiles = summaryOptions.show && summaryOptions.showTime && summaryOptions.compareProfiles;
 
     React.useEffect(() => {
-        if (!graphData) {
+        if (!graphReady) {
             setError("Graph data not loaded");
             return;
         }
 
-        if (!startCoord || !endCoord) {
+        if (!routes || routes.length === 0) {
             setError("Start or end coordinates missing");
             return;
         }
 
         setLoading(true);
         setError(null);
+        setProgress(null);
+
+        // The worker calculates the routes; a newer render cancels this job
+        const task = worker.compute(
+            { routes, routingOptions, stopOrderOptions, isochroneOptions, alternativeOptions, compareProfiles },
+            setProgress
+        );
 
-        try {
-            const route = calculateRoute(graphData, startCoord, endCoord);
-            setRouteCoords(route);
-        } catch (err) {
+        task.promise.then(result => {
+            setDragPreview(null);
+            const failed = result.routes.length === 0 && result.isochrones.length === 0;
+            if (failed && editing.current.onMoveEndpoint) {
+                // Keep the last results on the map, so a misplaced endpoint can be dragged back
+                setError(result.lastError || "Failed to calculate route");
+                setLoading(false);
+                return;
+            }
+            setCalculatedRoutes(result.routes);
+            setIsochrones(result.isochrones);
+            setHighlight(null);
+            const key = JSON.stringify([result.routes.map(route => route.request.id), alternativeOptions]);
+            if (key !== choicesKey.current) {
+                choicesKey.current = key;
+                setChoices([]);
+            }
+            setFailedRoutes(result.failures);
+            if (result.routes.length === 0 && result.isochrones.length === 0) {
+                setError(result.lastError || "Failed to calculate route");
+            }
+            setLoading(false);
+        }).catch(err => {
+            if (err instanceof CancelledError) {
+                return;
+            }
+            setDragPreview(null);
             setError(err instanceof Error ? err.message : "Failed to calculate route");
-            setRouteCoords([]);
-        } finally {
             setLoading(false);
+        });
+
+        return () => task.cancel();
+    }, [worker, graphReady, routes, routingOptions, stopOrderOptions, isochroneOptions, alternativeOptions, compareProfiles]);
+
+    const shownRoutes = React.useMemo(
+        () => calculatedRoutes.map((route, routeIndex) => selectRouteOption(route, choices[routeIndex] || 0)),
+        [calculatedRoutes, choices]
+    );
+
+    const directionsVisible = showDirections && !isochroneOptions.enabled && shownRoutes.length > 0;
+    const canExport = onExport !== null && mapStyle.showExport && !isochroneOptions.enabled && shownRoutes.length > 0;
+    const panelWidth = directionsVisible ? (directionsExpanded ? DIRECTIONS_PANEL_WIDTH : DIRECTIONS_PANEL_COLLAPSED_WIDTH) : 0;
+    const mapWidth = Math.max(width - panelWidth, 0);
+
+    const view = React.useMemo(
+        () => fitMapView(isochroneOptions.enabled ? isochronePoints(isochrones) : routePoints(calculatedRoutes), mapWidth, height),
+        [isochroneOptions.enabled, isochrones, calculatedRoutes, mapWidth, height]
+    );
+    // The user's pan and zoom apply until the routes cover a different area or the view is reset
+    const currentUserView = userView && userView.key === view.key ? userView : null;
+    const mapCenter = currentUserView?.center ?? view.center;
+    const mapZoom = currentUserView?.zoom ?? view.zoom;
+
+    // Draw lines for the zoom level on screen; whole levels, so small zoom changes reuse the traces
+    const pixelSize = degreesPerPixel(Math.floor(mapZoom), mapCenter.lat);
+    const { selectedRouteIds, highlightedRouteIds, hostTooltips } = interactions;
+    const { data, alternativePicks, routeTraceStart } = React.useMemo(() => {
+        if (isochroneOptions.enabled) {
+            return { data: buildIsochroneTraces(isochrones, isochroneOptions.budgets, pixelSize, mapStyle), alternativePicks: [], routeTraceStart: -1 };
+        }
+        // Alternatives are drawn first, so the shown routes stay on top
+        const alternatives = buildAlternativeTraces(calculatedRoutes, choices, pixelSize, mapStyle);
+        return {
+            data: [...alternatives.traces, ...buildRouteTraces(shownRoutes, pixelSize, mapStyle, selectedRouteIds, highlightedRouteIds, hostTooltips)],
+            alternativePicks: alternatives.picks,
+            routeTraceStart: alternatives.traces.length
+        };
+    }, [isochroneOptions.enabled, isochroneOptions.budgets, isochrones, calculatedRoutes, choices, shownRoutes, pixelSize, mapStyle, selectedRouteIds, highlightedRouteIds, hostTooltips]);
+
+    /**
+     * The shown route whose line is under a Plotly point, and whether the point is on a
+     * start or end marker rather than the line
+     */
+    const routeAt = (point: Readonly<Plotly.PlotDatum> | undefined): { route: CalculatedRoute; onLine: boolean } | null => {
+        if (!point || routeTraceStart < 0) {
+            return null;
+        }
+        const lineIndex = point.curveNumber - routeTraceStart;
+        if (lineIndex >= 0 && lineIndex < shownRoutes.length) {
+            return { route: shownRoutes[lineIndex], onLine: true };
+        }
+        // Start and end markers follow the waypoint trace, one point per route
+        const markerTrace = lineIndex - shownRoutes.length;
+        const route = markerTrace === 1 || markerTrace === 2 ? shownRoutes[point.pointNumber] : undefined;
+        return route ? { route, onLine: false } : null;
+    };
+
+    const handleRelayout = (event: Readonly<Plotly.PlotRelayoutEvent>) => {
+        const changes = event as { [key: string]: unknown };
+        const zoom = changes["mapbox.zoom"];
+        const center = changes["mapbox.center"] as { lat?: unknown; lon?: unknown } | undefined;
+        const moved = center && typeof center.lat === "number" && typeof center.lon === "number"
+            ? { lat: center.lat, lon: center.lon }
+            : undefined;
+        if (typeof zoom !== "number" && !moved) {
+            return;
+        }
+        // Panning reports only the center and zooming may report only the zoom, so keep the other
+        setUserView(previous => ({
+            ...(previous && previous.key === view.key ? previous : {}),
+            ...(typeof zoom === "number" ? { zoom } : {}),
+            ...(moved ? { center: moved } : {}),
+            key: view.key
+        }));
+    };
+
+    const resetView = () => {
+        setUserView(null);
+        setResetCount(count => count + 1);
+    };
+
+    const handleClick = (event: Readonly<Plotly.PlotMouseEvent>) => {
+        traceClicked.current = true;
+        const pick = event.points.length > 0 ? alternativePicks[event.points[0].curveNumber] : undefined;
+        if (pick) {
+            const updated = [...choices];
+            updated[pick.routeIndex] = pick.choice;
+            setChoices(updated);
+            setHighlight(null);
+            return;
+        }
+        const target = routeAt(event.points[0]);
+        if (target) {
+            interactions.onSelect(target.route.request.id, event.event.ctrlKey || event.event.metaKey);
+        }
+    };
+
+    // Plotly only reports clicks that hit a trace, before this sees every click on the map
+    const handleMapClick = (event: React.MouseEvent) => {
+        const onTrace = traceClicked.current;
+        traceClicked.current = false;
+        if (!onTrace && !placing && (event.target as HTMLElement).tagName === "CANVAS" && selectedRouteIds.length > 0) {
+            interactions.onSelect(null, false);
+        }
+    };
+
+    const handleHover = (event: Readonly<Plotly.PlotMouseEvent>) => {
+        const target = routeAt(event.points[0]);
+        hoveredRoute.current = target ? target.route : null;
+        if (target && target.onLine && hostTooltips) {
+            interactions.onHover(target.route, event.event);
+        }
+    };
+
+    const handleUnhover = () => {
+        if (hoveredRoute.current) {
+            hoveredRoute.current = null;
+            interactions.onHoverEnd();
+        }
+    };
+
+    const handleContextMenu = (event: React.MouseEvent) => {
+        event.preventDefault();
+        interactions.onContextMenu(hoveredRoute.current ? hoveredRoute.current.request.id : null, event.nativeEvent);
+    };
+
+    // Start listening to the map Plotly created, or stop when the endpoints cannot be edited
+    const updateMarkerEditing = (_figure: unknown, graphDiv: HTMLElement) => {
+        const map = onMoveEndpoint ? getPlotMap(graphDiv) : null;
+        if (attachedMap.current && attachedMap.current.map === map) {
+            return;
         }
-    }, [graphData, startCoord, endCoord]);
+        attachedMap.current?.detach();
+        attachedMap.current = map ? {
+            map,
+            detach: attachMarkerEditing(map, {
+                markers: () => {
+                    const route = editing.current.routes[0];
+                    if (!route) {
+                        return [];
+                    }
+                    const start = { endpoint: "start" as Endpoint, point: route.start };
+                    return editing.current.isochroneMode ? [start] : [start, { endpoint: "end", point: route.end }];
+                },
+                placing: () => editing.current.placing,
+                onDrag: (endpoint, point) => setDragPreview({ endpoint, point }),
+                onMove: (endpoint, point) => {
+                    setDragPreview({ endpoint, point });
+                    setPlacing(null);
+                    editing.current.onMoveEndpoint?.(endpoint, point);
+                }
+            })
+        } : null;
+    };
+
+    React.useEffect(() => () => attachedMap.current?.detach(), []);
 
-    if (!graphData) {
+    const hasResults = calculatedRoutes.length > 0 || isochrones.length > 0;
+
+    if (!graphReady) {
         return (
             <div style={{ width, height, display: "flex", alignItems: "center", justifyContent: "center" }}>
                 <div>Loading graph data...</div>
@@ -54,7 +894,7 @@ export const RouteVisualization: React.FC<RouteVisualizationProps> = (props) =>
         );
     }
 
-    if (error) {
+    if (error && !(onMoveEndpoint && hasResults)) {
         return (
             <div style={{ width, height, display: "flex", alignItems: "center", justifyContent: "center", color: "red" }}>
                 <div>Error: {error}</div>
@@ -62,117 +902,170 @@ export const RouteVisualization: React.FC<RouteVisualizationProps> = (props) =>
         );
     }
 
-    if (loading) {
+    // Once there are results, the map stays up while the next ones are calculated
+    if (loading && !hasResults) {
+        const percent = progress && progress.total > 0 ? Math.round(100 * progress.completed / progress.total) : 0;
         return (
             <div style={{ width, height, display: "flex", alignItems: "center", justifyContent: "center" }}>
-                <div>Calculating route...</div>
+                <div style={{ textAlign: "center" }}>
+                    <div>
+                        {isochroneOptions.enabled
+                            ? "Calculating reachable area..."
+                            : routes.length > 1
+                                ? `Calculating routes... ${progress ? progress.completed : 0} / ${routes.length}`
+                                : "Calculating route..."}
+                    </div>
+                    {routes.length > 1 && (
+                        <div style={{ width: 160, height: 4, marginTop: 8, background: "#eee" }}>
+                            <div style={{ width: `${percent}%`, height: "100%", background: "#118DFF" }} />
+                        </div>
+                    )}
+                </div>
             </div>
         );
     }
 
-    // Prepare data for Plotly
-    const routeLons = routeCoords.map(coord => coord.lon);
-    const routeLats = routeCoords.map(coord => coord.lat);
-
-    // Calculate center and zoom
-    const allLats = [...routeLats, startCoord.lat, endCoord.lat];
-    const allLons = [...routeLons, startCoord.lon, endCoord.lon];
-    
-    const centerLat = allLats.reduce((a, b) => a + b, 0) / allLats.length;
-    const centerLon = allLons.reduce((a, b) => a + b, 0) / allLons.length;
-
-    // Calculate zoom level based on bounding box
-    const minLat = Math.min(...allLats);
-    const maxLat = Math.max(...allLats);
-    const minLon = Math.min(...allLons);
-    const maxLon = Math.max(...allLons);
-    
-    const latRange = maxLat - minLat;
-    const lonRange = maxLon - minLon;
-    const maxRange = Math.max(latRange, lonRange);
-    
-    // Estimate zoom level (approximate)
-    let zoom = 12;
-    if (maxRange > 0.1) zoom = 10;
-    else if (maxRange > 0.05) zoom = 11;
-    else if (maxRange > 0.02) zoom = 12;
-    else if (maxRange > 0.01) zoom = 13;
-    else zoom = 14;
-
-    const data: Partial<Plotly.PlotData>[] = [
-        // Route line
-        {
-            type: "scattermapbox",
-            mode: "lines",
-            lon: routeLons,
-            lat: routeLats,
-            line: {
-                width: 4,
-                color: "blue"
-            },
-            name: "Route",
-            hovertemplate: "<b>Route</b><br>Lat: %{lat:.6f}<br>Lon: %{lon:.6f}<extra></extra>"
-        },
-        // Start point
-        {
-            type: "scattermapbox",
-            mode: "markers",
-            lon: [startCoord.lon],
-            lat: [startCoord.lat],
-            marker: {
-                size: 15,
-                color: "green",
-                symbol: "circle"
-            },
-            name: "Start",
-            hovertemplate: "<b>Start</b><br>Lat: %{lat:.6f}<br>Lon: %{lon:.6f}<extra></extra>"
-        },
-        // End point
-        {
-            type: "scattermapbox",
-            mode: "markers",
-            lon: [endCoord.lon],
-            lat: [endCoord.lat],
-            marker: {
-                size: 15,
-                color: "red",
-                symbol: "circle"
-            },
-            name: "End",
-            hovertemplate: "<b>End</b><br>Lat: %{lat:.6f}<br>Lon: %{lon:.6f}<extra></extra>"
-        }
+    const plotData = [
+        ...data,
+        ...(directionsVisible && highlight ? [buildHighlightTrace(highlight.route, highlight.step, mapStyle)] : []),
+        ...(dragPreview ? [buildDragTrace(dragPreview.endpoint, dragPreview.point, mapStyle)] : [])
     ];
 
     const layout: Partial<Plotly.Layout> = {
         mapbox: {
-            style: "open-street-map",
-            center: {
-                lat: centerLat,
-                lon: centerLon
-            },
-            zoom: zoom
+            style: mapboxStyle(mapStyle),
+            center: mapCenter,
+            zoom: mapZoom
         },
+        // Keep the user's pan and zoom until the routes cover a different area or the view is reset
+        uirevision: `${view.key}:${resetCount}`,
         margin: { l: 0, r: 0, t: 0, b: 0 },
-        showlegend: false,
+        showlegend: mapStyle.showLegend && (isochroneOptions.enabled || calculatedRoutes.length > 1),
+        legend: {
+            x: 0,
+            y: 1,
+            bgcolor: mapStyle.baseMap === "blank" ? mapStyle.background : "rgba(255, 255, 255, 0.8)",
+            font: { color: mapStyle.foreground }
+        },
         height: height,
-        width: width
+        width: mapWidth
     };
 
     const config: Partial<Plotly.Config> = {
-        displayModeBar: true,
+        displayModeBar: mapStyle.showToolbar,
         displaylogo: false,
         responsive: true
     };
 
     return (
-        <div style={{ width, height }}>
-            <Plot
-                data={data}
-                layout={layout}
-                config={config}
-                style={{ width: "100%", height: "100%" }}
-            />
+        <div style={{ width, height, display: "flex" }}>
+            <div style={{ width: mapWidth, height, position: "relative" }}>
+                <div style={{ width: "100%", height: "100%" }} onClick={handleMapClick} onContextMenu={handleContextMenu}>
+                    <Plot
+                        data={plotData}
+                        layout={layout}
+                        config={config}
+                        onRelayout={handleRelayout}
+                        onClick={handleClick}
+                        onHover={handleHover}
+                        onUnhover={handleUnhover}
+                        onInitialized={updateMarkerEditing}
+                        onUpdate={updateMarkerEditing}
+                        style={{ width: "100%", height: "100%" }}
+                    />
+                </div>
+                {onMoveEndpoint && (
+                    <div style={{ position: "absolute", top: 8, left: "50%", transform: "translateX(-50%)", display: "flex", gap: 4, fontSize: 12 }}>
+                        {(isochroneOptions.enabled ? ["start"] as Endpoint[] : ["start", "end"] as Endpoint[]).map(endpoint => (
+                            <button
+                                key={endpoint}
+                                style={{
+                                    padding: "2px 8px",
+                                    border: "1px solid #ccc",
+                                    borderRadius: 4,
+                                    background: placing === endpoint ? "#118DFF" : "rgba(255, 255, 255, 0.9)",
+                                    color: placing === endpoint ? "#fff" : "#333",
+                                    cursor: "pointer"
+                                }}
+                                onClick={() => setPlacing(placing === endpoint ? null : endpoint)}
+                                title="Click, then click the map to place the marker. Markers can also be dragged."
+                            >
+                                {endpoint === "end" ? "Set end" : isochroneOptions.enabled ? "Set origin" : "Set start"}
+                            </button>
+                        ))}
+                    </div>
+                )}
+                <div style={{ position: "absolute", bottom: 28, right: 8, display: "flex", alignItems: "flex-end", gap: 4 }}>
+                    {canExport && (
+                        <div style={{ display: "flex", flexDirection: "column", alignItems: "flex-end", gap: 2 }}>
+                            {exportMenuOpen && EXPORT_FORMATS.map(({ format, label }) => (
+                                <button
+                                    key={format}
+                                    style={OVERLAY_BUTTON_STYLE}
+                                    onClick={() => {
+                                        setExportMenuOpen(false);
+                                        onExport(format, shownRoutes);
+                                    }}
+                                >
+                                    {label}
+                                </button>
+                            ))}
+                            <button
+                                style={OVERLAY_BUTTON_STYLE}
+                                onClick={() => setExportMenuOpen(!exportMenuOpen)}
+                                title="Download the routes shown on the map"
+                            >
+                                Export
+                            </button>
+                        </div>
+                    )}
+                    {currentUserView !== null && (
+                        <button
+                            style={OVERLAY_BUTTON_STYLE}
+                            onClick={resetView}
+                            title="Fit the map to the routes again"
+                        >
+                            Reset view
+                        </button>
+                    )}
+                </div>
+                <RouteSummary
+                    results={isochroneOptions.enabled ? [] : shownRoutes.map(route => route.result)}
+                    stopOrders={shownRoutes.map(describeStopOrder).filter(summary => summary !== null)}
+                    profileTimes={shownRoutes.map(route => route.profileTimes).filter(times => times !== undefined)}
+                    vehicle={routingOptions.vehicle || "car"}
+                    options={summaryOptions}
+                />
+                <div style={{ position: "absolute", bottom: 4, left: 4, display: "flex", flexDirection: "column", alignItems: "flex-start", gap: 4 }}>
+                    {graphDiagnostics && (
+                        <GraphDiagnosticsPanel diagnostics={graphDiagnostics} />
+                    )}
+                    {loading && (
+                        <div style={{ padding: "2px 6px", fontSize: "11px", color: "#333", background: "rgba(255, 255, 255, 0.8)" }}>
+                            Calculating...
+                        </div>
+                    )}
+                    {error && (
+                        <div style={{ padding: "2px 6px", fontSize: "11px", color: "red", background: "rgba(255, 255, 255, 0.8)" }}>
+                            Error: {error}
+                        </div>
+                    )}
+                    {failedRoutes.length > 0 && (
+                        <div style={{ padding: "2px 6px", fontSize: "11px", color: "red", background: "rgba(255, 255, 255, 0.8)" }}>
+                            {failedRoutes.length} of {routes.length} routes could not be calculated
+                        </div>
+                    )}
+                </div>
+            </div>
+            {directionsVisible && (
+                <DirectionsPanel
+                    routes={shownRoutes}
+                    expanded={directionsExpanded}
+                    onToggle={() => setDirectionsExpanded(!directionsExpanded)}
+                    onHighlight={(route, step) => setHighlight(route && step ? { route, step } : null)}
+                    height={height}
+                />
+            )}
         </div>
     );
 };
-
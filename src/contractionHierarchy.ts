@@ -0,0 +1,605 @@
+/**
+ * Contraction hierarchies: a preprocessing step that makes shortest-path queries on
+ * large graphs much faster than A*, for one fixed set of edge costs.
+ *
+ * Nodes are contracted one at a time, least important first. Contracting a node removes
+ * it from the remaining graph and adds a shortcut u -> x for every path u -> node -> x
+ * that has no equally cheap witness path around it. A query then only needs two small
+ * Dijkstra searches, forwards from the start and backwards from the end, that both move
+ * towards more important nodes and meet at the most important node of the shortest path.
+ * Shortcuts remember the two arcs they replace, so paths unpack back to original edges.
+ *
+ * Binary layout (little-endian, every section starts on an 8-byte boundary):
+ *   header      magic "RGCH", version u16, flags u16, node count u32, arc count u32, graph checksum u32, reserved u32
+ *   ranks       Uint32 x nodes, contraction order
+ *   tails       Uint32 x arcs
+ *   heads       Uint32 x arcs
+ *   weights     Float64 x arcs
+ *   edges       Int32 x arcs, CSR position of the original edge, -1 for shortcuts
+ *   first       Int32 x arcs, first arc a shortcut replaces, -1 for original edges
+ *   second      Int32 x arcs, second arc a shortcut replaces, -1 for original edges
+ */
+
+import { MinHeap } from "./priorityQueue";
+
+/**
+ * A graph in CSR form with the cost of each edge; Infinity marks edges that may not be used
+ */
+export interface WeightedGraph {
+    edgeOffsets: Uint32Array;
+    edgeTargets: Uint32Array;
+    weights: Float64Array;
+}
+
+export interface ContractionHierarchy {
+    /** Contraction order of each node; searches only move towards higher ranks */
+    ranks: Uint32Array;
+    arcTails: Uint32Array;
+    arcHeads: Uint32Array;
+    arcWeights: Float64Array;
+    /** CSR position of the original edge each arc stands for, or -1 for shortcuts */
+    arcEdges: Int32Array;
+    /** For shortcuts, the arcs tail -> middle and middle -> head that they replace; -1 otherwise */
+    arcFirst: Int32Array;
+    arcSecond: Int32Array;
+    /** Arcs leaving each node towards a higher rank, in CSR form */
+    upOffsets: Uint32Array;
+    upArcs: Uint32Array;
+    /** Arcs entering each node from a higher rank, in CSR form */
+    downOffsets: Uint32Array;
+    downArcs: Uint32Array;
+    /** graphChecksum of the graph and costs the hierarchy was built for */
+    checksum: number;
+}
+
+/**
+ * A node a query may start or end at, and the cost of getting between it and the query's point
+ */
+export interface HierarchyEndpoint {
+    node: number;
+    cost: number;
+}
+
+/**
+ * The cheapest path found by a query, as CSR positions of the original edges driven
+ */
+export interface HierarchyPath {
+    cost: number;
+    /** Index of the source endpoint the path starts from */
+    source: number;
+    /** Index of the target endpoint the path ends at */
+    target: number;
+    edges: number[];
+}
+
+/**
+ * "RGCH" read as a little-endian u32
+ */
+const HIERARCHY_MAGIC = 0x48434752;
+const HIERARCHY_VERSION = 1;
+const HEADER_BYTES = 24;
+
+/**
+ * Witness searches give up after settling this many nodes. A missed witness only adds a
+ * shortcut that is not needed, so the limit trades preprocessing time for hierarchy size.
+ */
+const WITNESS_SETTLE_LIMIT = 500;
+
+/**
+ * Per-search scratch arrays, valid only where the stamp matches the current generation
+ */
+class HierarchySearch {
+    public readonly dist: Float64Array;
+    /** Arc each node was reached by, or -1 for the nodes the search started from */
+    public readonly previousArc: Int32Array;
+    public readonly heap = new MinHeap();
+    private readonly stamps: Uint32Array;
+    private readonly closedStamps: Uint32Array;
+    private generation = 0;
+
+    constructor(nodeCount: number) {
+        this.dist = new Float64Array(nodeCount);
+        this.previousArc = new Int32Array(nodeCount);
+        this.stamps = new Uint32Array(nodeCount);
+        this.closedStamps = new Uint32Array(nodeCount);
+    }
+
+    public reset(): void {
+        this.generation++;
+        this.heap.clear();
+    }
+
+    public getDist(node: number): number {
+        return this.stamps[node] === this.generation ? this.dist[node] : Infinity;
+    }
+
+    public setDist(node: number, dist: number, previousArc: number): void {
+        this.stamps[node] = this.generation;
+        this.dist[node] = dist;
+        this.previousArc[node] = previousArc;
+    }
+
+    public isClosed(node: number): boolean {
+        return this.closedStamps[node] === this.generation;
+    }
+
+    public close(node: number): void {
+        this.closedStamps[node] = this.generation;
+    }
+}
+
+const querySearches = new WeakMap<ContractionHierarchy, { forward: HierarchySearch; backward: HierarchySearch }>();
+
+function align8(offset: number): number {
+    return Math.ceil(offset / 8) * 8;
+}
+
+/**
+ * FNV-1a hash of a graph's structure and edge costs. A hierarchy is only valid for the
+ * exact graph and costs it was built from, which this identifies.
+ */
+export function graphChecksum(graph: WeightedGraph): number {
+    let hash = 0x811c9dc5;
+    const mix = (words: Uint32Array) => {
+        for (let i = 0; i < words.length; i++) {
+            hash = Math.imul(hash ^ words[i], 0x01000193);
+        }
+    };
+    mix(new Uint32Array([graph.edgeOffsets.length - 1, graph.edgeTargets.length]));
+    mix(graph.edgeOffsets);
+    mix(graph.edgeTargets);
+    mix(new Uint32Array(graph.weights.buffer, graph.weights.byteOffset, graph.weights.length * 2));
+    return hash >>> 0;
+}
+
+/**
+ * Build a contraction hierarchy. Nodes are ordered by edge difference (shortcuts added minus
+ * arcs removed) plus the number of neighbours already contracted, which spreads contraction
+ * evenly over the graph; priorities are updated lazily when a node comes up for contraction.
+ */
+export function buildContractionHierarchy(graph: WeightedGraph): ContractionHierarchy {
+    const nodeCount = graph.edgeOffsets.length - 1;
+    const tails: number[] = [];
+    const heads: number[] = [];
+    const weights: number[] = [];
+    const edges: number[] = [];
+    const first: number[] = [];
+    const second: number[] = [];
+    const outArcs: number[][] = Array.from({ length: nodeCount }, () => []);
+    const inArcs: number[][] = Array.from({ length: nodeCount }, () => []);
+
+    const addArc = (tail: number, head: number, weight: number, edge: number, firstArc: number, secondArc: number) => {
+        const arc = tails.length;
+        tails.push(tail);
+        heads.push(head);
+        weights.push(weight);
+        edges.push(edge);
+        first.push(firstArc);
+        second.push(secondArc);
+        outArcs[tail].push(arc);
+        inArcs[head].push(arc);
+    };
+
+    for (let from = 0; from < nodeCount; from++) {
+        for (let edge = graph.edgeOffsets[from]; edge < graph.edgeOffsets[from + 1]; edge++) {
+            const to = graph.edgeTargets[edge];
+            if (to !== from && isFinite(graph.weights[edge])) {
+                addArc(from, to, graph.weights[edge], edge, -1, -1);
+            }
+        }
+    }
+
+    const contracted = new Uint8Array(nodeCount);
+    const contractedNeighbours = new Uint32Array(nodeCount);
+    const witness = new HierarchySearch(nodeCount);
+
+    /**
+     * The cheapest arc to each other uncontracted node, keyed by that node
+     */
+    const cheapestArcs = (arcs: number[], otherEnd: number[]): Map<number, number> => {
+        const cheapest = new Map<number, number>();
+        for (const arc of arcs) {
+            const other = otherEnd[arc];
+            if (contracted[other]) {
+                continue;
+            }
+            const current = cheapest.get(other);
+            if (current === undefined || weights[arc] < weights[current]) {
+                cheapest.set(other, arc);
+            }
+        }
+        return cheapest;
+    };
+
+    /**
+     * Dijkstra from `source` around `skipped`, settling nodes up to `maxDist` away
+     */
+    const witnessSearch = (source: number, skipped: number, maxDist: number) => {
+        witness.reset();
+        witness.setDist(source, 0, -1);
+        witness.heap.push(source, 0);
+        let settled = 0;
+        while (witness.heap.size > 0) {
+            const node = witness.heap.pop();
+            if (witness.isClosed(node)) {
+                continue;
+            }
+            const dist = witness.getDist(node);
+            if (dist > maxDist || ++settled > WITNESS_SETTLE_LIMIT) {
+                return;
+            }
+            witness.close(node);
+            for (const arc of outArcs[node]) {
+                const head = heads[arc];
+                if (head === skipped || contracted[head]) {
+                    continue;
+                }
+                const next = dist + weights[arc];
+                if (next < witness.getDist(head)) {
+                    witness.setDist(head, next, arc);
+                    witness.heap.push(head, next);
+                }
+            }
+        }
+    };
+
+    /**
+     * Find the shortcuts contracting a node needs, adding them when `apply` is set.
+     * Returns the node's priority.
+     */
+    const contract = (node: number, apply: boolean): number => {
+        const incoming = cheapestArcs(inArcs[node], tails);
+        const outgoing = cheapestArcs(outArcs[node], heads);
+        let shortcuts = 0;
+
+        incoming.forEach((inArc, source) => {
+            let maxDist = -1;
+            outgoing.forEach((outArc, target) => {
+                if (target !== source) {
+                    maxDist = Math.max(maxDist, weights[inArc] + weights[outArc]);
+                }
+            });
+            if (maxDist < 0) {
+                return; // The only way on leads back to the source
+            }
+            witnessSearch(source, node, maxDist);
+            outgoing.forEach((outArc, target) => {
+                const via = weights[inArc] + weights[outArc];
+                if (target === source || witness.getDist(target) <= via) {
+                    return;
+                }
+                shortcuts++;
+                if (apply) {
+                    addArc(source, target, via, -1, inArc, outArc);
+                }
+            });
+        });
+
+        return shortcuts - incoming.size - outgoing.size + contractedNeighbours[node];
+    };
+
+    const queue = new MinHeap();
+    for (let node = 0; node < nodeCount; node++) {
+        queue.push(node, contract(node, false));
+    }
+
+    const ranks = new Uint32Array(nodeCount);
+    let rank = 0;
+    while (queue.size > 0) {
+        const node = queue.pop();
+        // Lazy update: the stored priority may be out of date since neighbours were contracted
+        const priority = contract(node, false);
+        if (queue.size > 0 && priority > queue.peekPriority()) {
+            queue.push(node, priority);
+            continue;
+        }
+
+        contract(node, true);
+        contracted[node] = 1;
+        ranks[node] = rank++;
+        for (const arc of outArcs[node]) {
+            contractedNeighbours[heads[arc]]++;
+        }
+        for (const arc of inArcs[node]) {
+            contractedNeighbours[tails[arc]]++;
+        }
+    }
+
+    return indexHierarchy({
+        ranks,
+        arcTails: Uint32Array.from(tails),
+        arcHeads: Uint32Array.from(heads),
+        arcWeights: Float64Array.from(weights),
+        arcEdges: Int32Array.from(edges),
+        arcFirst: Int32Array.from(first),
+        arcSecond: Int32Array.from(second),
+        checksum: graphChecksum(graph)
+    });
+}
+
+/**
+ * Sort a hierarchy's arcs into the upward and downward CSR arrays the queries walk
+ */
+function indexHierarchy(
+    hierarchy: Omit<ContractionHierarchy, "upOffsets" | "upArcs" | "downOffsets" | "downArcs">
+): ContractionHierarchy {
+    const { ranks, arcTails, arcHeads } = hierarchy;
+    const nodeCount = ranks.length;
+    const upOffsets = new Uint32Array(nodeCount + 1);
+    const downOffsets = new Uint32Array(nodeCount + 1);
+    for (let arc = 0; arc < arcTails.length; arc++) {
+        if (ranks[arcTails[arc]] < ranks[arcHeads[arc]]) {
+            upOffsets[arcTails[arc] + 1]++;
+        } else {
+            downOffsets[arcHeads[arc] + 1]++;
+        }
+    }
+    for (let node = 0; node < nodeCount; node++) {
+        upOffsets[node + 1] += upOffsets[node];
+        downOffsets[node + 1] += downOffsets[node];
+    }
+
+    const upArcs = new Uint32Array(upOffsets[nodeCount]);
+    const downArcs = new Uint32Array(downOffsets[nodeCount]);
+    const upFill = upOffsets.slice(0, nodeCount);
+    const downFill = downOffsets.slice(0, nodeCount);
+    for (let arc = 0; arc < arcTails.length; arc++) {
+        if (ranks[arcTails[arc]] < ranks[arcHeads[arc]]) {
+            upArcs[upFill[arcTails[arc]]++] = arc;
+        } else {
+            downArcs[downFill[arcHeads[arc]]++] = arc;
+        }
+    }
+
+    return { ...hierarchy, upOffsets, upArcs, downOffsets, downArcs };
+}
+
+/**
+ * Check whether a buffer holds a contraction hierarchy, by its magic number
+ */
+export function isHierarchyBinary(buffer: ArrayBuffer): boolean {
+    return buffer.byteLength >= HEADER_BYTES && new DataView(buffer).getUint32(0, true) === HIERARCHY_MAGIC;
+}
+
+/**
+ * Convert a contraction hierarchy into its binary format. The CSR arrays are rebuilt on decoding.
+ */
+export function encodeContractionHierarchy(hierarchy: ContractionHierarchy): ArrayBuffer {
+    const nodeCount = hierarchy.ranks.length;
+    const arcCount = hierarchy.arcTails.length;
+
+    let offset = HEADER_BYTES;
+    const section = (bytes: number) => {
+        const start = offset;
+        offset = align8(offset + bytes);
+        return start;
+    };
+    const ranksOffset = section(4 * nodeCount);
+    const tailsOffset = section(4 * arcCount);
+    const headsOffset = section(4 * arcCount);
+    const weightsOffset = section(8 * arcCount);
+    const edgesOffset = section(4 * arcCount);
+    const firstOffset = section(4 * arcCount);
+    const secondOffset = section(4 * arcCount);
+
+    const buffer = new ArrayBuffer(offset);
+    const header = new DataView(buffer);
+    header.setUint32(0, HIERARCHY_MAGIC, true);
+    header.setUint16(4, HIERARCHY_VERSION, true);
+    header.setUint16(6, 0, true);
+    header.setUint32(8, nodeCount, true);
+    header.setUint32(12, arcCount, true);
+    header.setUint32(16, hierarchy.checksum, true);
+
+    new Uint32Array(buffer, ranksOffset, nodeCount).set(hierarchy.ranks);
+    new Uint32Array(buffer, tailsOffset, arcCount).set(hierarchy.arcTails);
+    new Uint32Array(buffer, headsOffset, arcCount).set(hierarchy.arcHeads);
+    new Float64Array(buffer, weightsOffset, arcCount).set(hierarchy.arcWeights);
+    new Int32Array(buffer, edgesOffset, arcCount).set(hierarchy.arcEdges);
+    new Int32Array(buffer, firstOffset, arcCount).set(hierarchy.arcFirst);
+    new Int32Array(buffer, secondOffset, arcCount).set(hierarchy.arcSecond);
+    return buffer;
+}
+
+/**
+ * Read a contraction hierarchy from its binary format
+ */
+export function decodeContractionHierarchy(buffer: ArrayBuffer): ContractionHierarchy {
+    if (!isHierarchyBinary(buffer)) {
+        throw new Error("Not a contraction hierarchy file (bad magic number)");
+    }
+    const header = new DataView(buffer);
+    const version = header.getUint16(4, true);
+    if (version !== HIERARCHY_VERSION) {
+        throw new Error(`Unsupported contraction hierarchy version ${version}`);
+    }
+    const nodeCount = header.getUint32(8, true);
+    const arcCount = header.getUint32(12, true);
+    const checksum = header.getUint32(16, true);
+
+    let offset = HEADER_BYTES;
+    const section = (bytes: number) => {
+        const start = offset;
+        offset = align8(offset + bytes);
+        if (start + bytes > buffer.byteLength) {
+            throw new Error("Contraction hierarchy file is truncated");
+        }
+        return start;
+    };
+    // Typed arrays are copied out so the hierarchy does not keep the whole file alive
+    const ranks = new Uint32Array(buffer, section(4 * nodeCount), nodeCount).slice();
+    const arcTails = new Uint32Array(buffer, section(4 * arcCount), arcCount).slice();
+    const arcHeads = new Uint32Array(buffer, section(4 * arcCount), arcCount).slice();
+    const arcWeights = new Float64Array(buffer, section(8 * arcCount), arcCount).slice();
+    const arcEdges = new Int32Array(buffer, section(4 * arcCount), arcCount).slice();
+    const arcFirst = new Int32Array(buffer, section(4 * arcCount), arcCount).slice();
+    const arcSecond = new Int32Array(buffer, section(4 * arcCount), arcCount).slice();
+
+    for (let arc = 0; arc < arcCount; arc++) {
+        if (arcTails[arc] >= nodeCount || arcHeads[arc] >= nodeCount ||
+            (arcEdges[arc] === -1 && !(arcFirst[arc] >= 0 && arcFirst[arc] < arc && arcSecond[arc] >= 0 && arcSecond[arc] < arc))) {
+            throw new Error(`Contraction hierarchy arc ${arc} is invalid`);
+        }
+    }
+
+    return indexHierarchy({ ranks, arcTails, arcHeads, arcWeights, arcEdges, arcFirst, arcSecond, checksum });
+}
+
+/**
+ * Bidirectional search over a hierarchy: forwards from the sources along upward arcs and
+ * backwards from the targets along downward arcs, alternating between the two. A direction
+ * stops once its cheapest open node costs at least the best meeting found so far. Nodes that
+ * can be reached more cheaply from a higher-ranked node are stalled: they cannot be on a
+ * shortest path, so their arcs are not relaxed. Returns null when no target can be reached.
+ */
+export function queryContractionHierarchy(
+    hierarchy: ContractionHierarchy,
+    sources: HierarchyEndpoint[],
+    targets: HierarchyEndpoint[]
+): HierarchyPath | null {
+    let searches = querySearches.get(hierarchy);
+    if (!searches) {
+        searches = { forward: new HierarchySearch(hierarchy.ranks.length), backward: new HierarchySearch(hierarchy.ranks.length) };
+        querySearches.set(hierarchy, searches);
+    }
+    const { forward, backward } = searches;
+    forward.reset();
+    backward.reset();
+    for (const source of sources) {
+        if (source.cost < forward.getDist(source.node)) {
+            forward.setDist(source.node, source.cost, -1);
+            forward.heap.push(source.node, source.cost);
+        }
+    }
+    for (const target of targets) {
+        if (target.cost < backward.getDist(target.node)) {
+            backward.setDist(target.node, target.cost, -1);
+            backward.heap.push(target.node, target.cost);
+        }
+    }
+
+    const { upOffsets, upArcs, downOffsets, downArcs, arcTails, arcHeads, arcWeights } = hierarchy;
+    let bestCost = Infinity;
+    let meeting = -1;
+
+    /**
+     * Settle the next node of one direction; returns false once the direction is finished
+     */
+    const step = (search: HierarchySearch, other: HierarchySearch, isForward: boolean): boolean => {
+        while (search.heap.size > 0) {
+            const node = search.heap.pop();
+            if (search.isClosed(node)) {
+                continue;
+            }
+            const dist = search.getDist(node);
+            if (dist >= bestCost) {
+                search.heap.clear();
+                return false;
+            }
+            search.close(node);
+
+            const total = dist + other.getDist(node);
+            if (total < bestCost) {
+                bestCost = total;
+                meeting = node;
+            }
+
+            // Stall-on-demand: arcs the other way lead to higher-ranked nodes in this search
+            const stallOffsets = isForward ? downOffsets : upOffsets;
+            const stallArcs = isForward ? downArcs : upArcs;
+            for (let i = stallOffsets[node]; i < stallOffsets[node + 1]; i++) {
+                const arc = stallArcs[i];
+                const higher = isForward ? arcTails[arc] : arcHeads[arc];
+                if (search.getDist(higher) + arcWeights[arc] < dist) {
+                    return true;
+                }
+            }
+
+            const offsets = isForward ? upOffsets : downOffsets;
+            const arcs = isForward ? upArcs : downArcs;
+            for (let i = offsets[node]; i < offsets[node + 1]; i++) {
+                const arc = arcs[i];
+                const next = isForward ? arcHeads[arc] : arcTails[arc];
+                const nextDist = dist + arcWeights[arc];
+                if (nextDist < search.getDist(next)) {
+                    search.setDist(next, nextDist, arc);
+                    search.heap.push(next, nextDist);
+                }
+            }
+            return true;
+        }
+        return false;
+    };
+
+    let forwardOpen = true;
+    let backwardOpen = true;
+    while (forwardOpen || backwardOpen) {
+        if (forwardOpen) {
+            forwardOpen = step(forward, backward, true);
+        }
+        if (backwardOpen) {
+            backwardOpen = step(backward, forward, false);
+        }
+    }
+
+    if (meeting === -1) {
+        return null;
+    }
+
+    // Arcs from the source to the meeting node, then from the meeting node to the target
+    const pathArcs: number[] = [];
+    let node = meeting;
+    while (forward.previousArc[node] !== -1) {
+        pathArcs.push(forward.previousArc[node]);
+        node = arcTails[forward.previousArc[node]];
+    }
+    const sourceNode = node;
+    pathArcs.reverse();
+    node = meeting;
+    while (backward.previousArc[node] !== -1) {
+        pathArcs.push(backward.previousArc[node]);
+        node = arcHeads[backward.previousArc[node]];
+    }
+    const targetNode = node;
+
+    const edges: number[] = [];
+    for (const arc of pathArcs) {
+        unpackArc(hierarchy, arc, edges);
+    }
+
+    return {
+        cost: bestCost,
+        source: cheapestEndpoint(sources, sourceNode),
+        target: cheapestEndpoint(targets, targetNode),
+        edges
+    };
+}
+
+/**
+ * Index of the cheapest endpoint at a node, the one a search started from there used
+ */
+function cheapestEndpoint(endpoints: HierarchyEndpoint[], node: number): number {
+    let best = -1;
+    endpoints.forEach((endpoint, endpointIndex) => {
+        if (endpoint.node === node && (best === -1 || endpoint.cost < endpoints[best].cost)) {
+            best = endpointIndex;
+        }
+    });
+    return best;
+}
+
+/**
+ * Append the original edges an arc stands for, expanding shortcuts in order
+ */
+function unpackArc(hierarchy: ContractionHierarchy, arc: number, edges: number[]): void {
+    const stack = [arc];
+    while (stack.length > 0) {
+        const current = stack.pop()!;
+        if (hierarchy.arcEdges[current] !== -1) {
+            edges.push(hierarchy.arcEdges[current]);
+        } else {
+            // Second pushed first so the first half is unpacked first
+            stack.push(hierarchy.arcSecond[current], hierarchy.arcFirst[current]);
+        }
+    }
+}
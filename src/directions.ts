@@ -0,0 +1,209 @@
+/**
+ * Turn-by-turn directions generated from a calculated route
+ */
+
+import { Coordinate, RouteEdgeStats, RouteResult } from "./routingUtils";
+
+export type Maneuver =
+    | "depart"
+    | "straight"
+    | "slightLeft"
+    | "left"
+    | "sharpLeft"
+    | "slightRight"
+    | "right"
+    | "sharpRight"
+    | "uturn"
+    | "waypoint"
+    | "arrive";
+
+export interface DirectionStep {
+    maneuver: Maneuver;
+    instruction: string;
+    /** Street name of the step, if the graph has one */
+    name?: string;
+    /** Road class of the step's first edge, if the graph has one */
+    highway?: string;
+    /** Step length in metres */
+    distance: number;
+    /** Step travel time in seconds */
+    time: number;
+    /** First and last index in RouteResult.coordinates covered by the step */
+    startIndex: number;
+    endIndex: number;
+}
+
+/**
+ * Turns sharper than this, in degrees, start a new step even on the same road
+ */
+const NEW_STEP_TURN_DEGREES = 60;
+
+const COMPASS_POINTS = ["north", "northeast", "east", "southeast", "south", "southwest", "west", "northwest"];
+
+function toRadians(degrees: number): number {
+    return degrees * (Math.PI / 180);
+}
+
+/**
+ * Initial compass bearing from one point to another, in degrees clockwise from north
+ */
+function bearing(from: Coordinate, to: Coordinate): number {
+    const lat1 = toRadians(from.lat);
+    const lat2 = toRadians(to.lat);
+    const dLon = toRadians(to.lon - from.lon);
+    const y = Math.sin(dLon) * Math.cos(lat2);
+    const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLon);
+    return (Math.atan2(y, x) * 180 / Math.PI + 360) % 360;
+}
+
+/**
+ * Signed change of direction from one bearing to the next, from -180 (left) to 180 (right)
+ */
+function turnAngle(fromBearing: number, toBearing: number): number {
+    const delta = (toBearing - fromBearing + 540) % 360 - 180;
+    return delta === -180 ? 180 : delta;
+}
+
+function classifyTurn(angle: number): Maneuver {
+    const magnitude = Math.abs(angle);
+    if (magnitude < 20) {
+        return "straight";
+    }
+    if (magnitude >= 170) {
+        return "uturn";
+    }
+    const side = angle < 0 ? "Left" : "Right";
+    if (magnitude < 45) {
+        return `slight${side}` as Maneuver;
+    }
+    if (magnitude < 135) {
+        return side === "Left" ? "left" : "right";
+    }
+    return `sharp${side}` as Maneuver;
+}
+
+function describeTurn(maneuver: Maneuver, name: string | undefined, previousName: string | undefined): string {
+    const road = name
+        ? (name === previousName ? ` to stay on ${name}` : ` onto ${name}`)
+        : "";
+    switch (maneuver) {
+        case "straight":
+            return name && name !== previousName ? `Continue onto ${name}` : "Continue straight";
+        case "slightLeft":
+            return `Bear left${road}`;
+        case "slightRight":
+            return `Bear right${road}`;
+        case "left":
+            return `Turn left${road}`;
+        case "right":
+            return `Turn right${road}`;
+        case "sharpLeft":
+            return `Turn sharp left${road}`;
+        case "sharpRight":
+            return `Turn sharp right${road}`;
+        case "uturn":
+            return `Make a U-turn${road}`;
+        default:
+            return `Continue${road}`;
+    }
+}
+
+/**
+ * Bearing at the start and end of an edge's shape, or null for a zero-length shape
+ */
+function edgeBearings(coordinates: Coordinate[], edge: RouteEdgeStats): { entry: number; exit: number } | null {
+    if (edge.endIndex <= edge.startIndex) {
+        return null;
+    }
+    return {
+        entry: bearing(coordinates[edge.startIndex], coordinates[edge.startIndex + 1]),
+        exit: bearing(coordinates[edge.endIndex - 1], coordinates[edge.endIndex])
+    };
+}
+
+/**
+ * Build directions for a route. Consecutive edges of the same street (or, for unnamed
+ * roads, the same road class) are grouped into one step unless the route turns sharply;
+ * each new step is described by the change of bearing from the previous edge.
+ * Multi-stop routes get a step at every intermediate stop.
+ */
+export function buildDirections(result: RouteResult): DirectionStep[] {
+    const steps: DirectionStep[] = [];
+    const coordinates = result.coordinates;
+    const legStarts = result.legs.map(leg => leg.startIndex);
+    let legIndex = 0;
+    let current: DirectionStep | null = null;
+    let previousExit: number | null = null;
+
+    const groupKey = (edge: RouteEdgeStats) => edge.name !== undefined ? `name:${edge.name}` : `class:${edge.highway ?? ""}`;
+    let currentKey = "";
+
+    for (const edge of result.edges) {
+        const bearings = edgeBearings(coordinates, edge);
+        if (!bearings || edge.length <= 0) {
+            continue;
+        }
+
+        // Passing the start of the next leg means an intermediate stop was reached
+        let reachedStop = false;
+        while (legIndex + 1 < legStarts.length && edge.startIndex >= legStarts[legIndex + 1]) {
+            legIndex++;
+            reachedStop = true;
+        }
+        if (reachedStop && current) {
+            steps.push({
+                maneuver: "waypoint",
+                instruction: `Reach stop ${legIndex}`,
+                distance: 0,
+                time: 0,
+                startIndex: edge.startIndex,
+                endIndex: edge.startIndex
+            });
+            current = null;
+        }
+
+        const angle = previousExit === null ? 0 : turnAngle(previousExit, bearings.entry);
+        const key = groupKey(edge);
+        if (current && key === currentKey && Math.abs(angle) < NEW_STEP_TURN_DEGREES) {
+            current.distance += edge.length;
+            current.time += edge.travelTime;
+            current.endIndex = edge.endIndex;
+        } else {
+            let maneuver: Maneuver;
+            let instruction: string;
+            if (previousExit === null) {
+                maneuver = "depart";
+                const heading = COMPASS_POINTS[Math.round(bearings.entry / 45) % 8];
+                instruction = edge.name ? `Head ${heading} on ${edge.name}` : `Head ${heading}`;
+            } else {
+                maneuver = classifyTurn(angle);
+                const previousName = steps.length > 0 ? steps[steps.length - 1].name : undefined;
+                instruction = describeTurn(maneuver, edge.name, previousName);
+            }
+            current = {
+                maneuver,
+                instruction,
+                name: edge.name,
+                highway: edge.highway,
+                distance: edge.length,
+                time: edge.travelTime,
+                startIndex: edge.startIndex,
+                endIndex: edge.endIndex
+            };
+            currentKey = key;
+            steps.push(current);
+        }
+        previousExit = bearings.exit;
+    }
+
+    const lastIndex = Math.max(coordinates.length - 1, 0);
+    steps.push({
+        maneuver: "arrive",
+        instruction: "Arrive at your destination",
+        distance: 0,
+        time: 0,
+        startIndex: lastIndex,
+        endIndex: lastIndex
+    });
+    return steps;
+}
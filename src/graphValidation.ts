@@ -0,0 +1,400 @@
+/**
+ * Checks for loaded graph data: the GraphData schema, then consistency problems
+ * reported as diagnostics
+ */
+
+import { decodePolyline } from "./polyline";
+import { GraphData, isSpeedProfile } from "./routingUtils";
+
+/**
+ * Number of schema problems listed in an error message before the rest are summarised
+ */
+const MAX_LISTED_PROBLEMS = 5;
+
+function isFiniteNumber(value: unknown): value is number {
+    return typeof value === "number" && isFinite(value);
+}
+
+function isGeometry(value: unknown): boolean {
+    if (typeof value === "string") {
+        try {
+            decodePolyline(value);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+    return Array.isArray(value) && value.every(point =>
+        Array.isArray(point) && point.length === 2 &&
+        isFiniteNumber(point[0]) && Math.abs(point[0]) <= 90 &&
+        isFiniteNumber(point[1]) && Math.abs(point[1]) <= 180);
+}
+
+/**
+ * Check that a parsed value has the GraphData shape and throw an error listing
+ * the first problems found, prefixed with where the graph came from
+ */
+export function assertGraphData(value: unknown, sourceLabel: string): GraphData {
+    const problems: string[] = [];
+    let problemCount = 0;
+    const problem = (message: string) => {
+        problemCount++;
+        if (problems.length < MAX_LISTED_PROBLEMS) {
+            problems.push(message);
+        }
+    };
+
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        throw new Error(`${sourceLabel}: expected a graph object with "nodes" and "edges"`);
+    }
+    const graph = value as { [field: string]: unknown };
+
+    if (typeof graph.nodes !== "object" || graph.nodes === null || Array.isArray(graph.nodes)) {
+        problem(`"nodes" must be an object keyed by node id`);
+    } else {
+        const nodes = graph.nodes as { [key: string]: unknown };
+        for (const key of Object.keys(nodes)) {
+            const node = nodes[key] as { [field: string]: unknown } | null;
+            if (typeof node !== "object" || node === null) {
+                problem(`nodes["${key}"] must be an object`);
+                continue;
+            }
+            if (!isFiniteNumber(node.id)) {
+                problem(`nodes["${key}"].id must be a number`);
+            } else if (String(node.id) !== key) {
+                problem(`nodes["${key}"].id is ${node.id}, but nodes must be keyed by their id`);
+            }
+            if (!isFiniteNumber(node.lat) || node.lat < -90 || node.lat > 90) {
+                problem(`nodes["${key}"].lat must be a latitude between -90 and 90`);
+            }
+            if (!isFiniteNumber(node.lon) || node.lon < -180 || node.lon > 180) {
+                problem(`nodes["${key}"].lon must be a longitude between -180 and 180`);
+            }
+        }
+    }
+
+    if (!Array.isArray(graph.edges)) {
+        problem(`"edges" must be an array`);
+    } else {
+        graph.edges.forEach((edge: { [field: string]: unknown } | null, edgeIndex: number) => {
+            if (typeof edge !== "object" || edge === null) {
+                problem(`edges[${edgeIndex}] must be an object`);
+                return;
+            }
+            for (const field of ["from", "to", "length", "travel_time"]) {
+                if (!isFiniteNumber(edge[field])) {
+                    problem(`edges[${edgeIndex}].${field} must be a number`);
+                }
+            }
+            if (edge.maxspeed !== undefined && edge.maxspeed !== null && !isFiniteNumber(edge.maxspeed)) {
+                problem(`edges[${edgeIndex}].maxspeed must be a number when present`);
+            }
+            if (edge.geometry !== undefined && edge.geometry !== null && !isGeometry(edge.geometry)) {
+                problem(`edges[${edgeIndex}].geometry must be an encoded polyline or a list of [lat, lon] pairs`);
+            }
+            for (const field of ["name", "highway", "speed_profile"]) {
+                if (edge[field] !== undefined && edge[field] !== null && typeof edge[field] !== "string") {
+                    problem(`edges[${edgeIndex}].${field} must be text when present`);
+                }
+            }
+            for (const field of ["maxheight", "maxweight"]) {
+                if (edge[field] !== undefined && edge[field] !== null && !(isFiniteNumber(edge[field]) && edge[field] > 0)) {
+                    problem(`edges[${edgeIndex}].${field} must be a positive number when present`);
+                }
+            }
+            for (const field of ["toll", "ferry", "access"]) {
+                if (edge[field] !== undefined && edge[field] !== null && typeof edge[field] !== "boolean") {
+                    problem(`edges[${edgeIndex}].${field} must be true or false when present`);
+                }
+            }
+        });
+    }
+
+    if (graph.turn_restrictions !== undefined && graph.turn_restrictions !== null) {
+        if (!Array.isArray(graph.turn_restrictions)) {
+            problem(`"turn_restrictions" must be an array when present`);
+        } else {
+            graph.turn_restrictions.forEach((restriction: { [field: string]: unknown } | null, restrictionIndex: number) => {
+                if (typeof restriction !== "object" || restriction === null) {
+                    problem(`turn_restrictions[${restrictionIndex}] must be an object`);
+                    return;
+                }
+                for (const field of ["via", "from", "to"]) {
+                    if (!isFiniteNumber(restriction[field])) {
+                        problem(`turn_restrictions[${restrictionIndex}].${field} must be a number`);
+                    }
+                }
+                if (restriction.type !== undefined && restriction.type !== "no" && restriction.type !== "only") {
+                    problem(`turn_restrictions[${restrictionIndex}].type must be "no" or "only" when present`);
+                }
+            });
+        }
+    }
+
+    if (graph.speed_profiles !== undefined && graph.speed_profiles !== null) {
+        if (typeof graph.speed_profiles !== "object" || Array.isArray(graph.speed_profiles)) {
+            problem(`"speed_profiles" must be an object keyed by profile name when present`);
+        } else {
+            const profiles = graph.speed_profiles as { [name: string]: unknown };
+            for (const name of Object.keys(profiles)) {
+                if (!isSpeedProfile(profiles[name])) {
+                    problem(`speed_profiles["${name}"] must be a list of 24 or 168 positive numbers`);
+                }
+            }
+        }
+    }
+    if (graph.highway_speed_profiles !== undefined && graph.highway_speed_profiles !== null) {
+        const byHighway = graph.highway_speed_profiles as { [highway: string]: unknown };
+        if (typeof byHighway !== "object" || Array.isArray(byHighway) || Object.values(byHighway).some(name => typeof name !== "string")) {
+            problem(`"highway_speed_profiles" must map road classes to speed profile names when present`);
+        }
+    }
+
+    for (const field of ["node_count", "edge_count"]) {
+        if (!isFiniteNumber(graph[field])) {
+            problem(`"${field}" must be a number`);
+        }
+    }
+
+    if (problemCount > 0) {
+        const more = problemCount > problems.length ? ` (and ${problemCount - problems.length} more)` : "";
+        throw new Error(`${sourceLabel}: invalid graph data: ${problems.join("; ")}${more}`);
+    }
+
+    return value as GraphData;
+}
+
+export type GraphIssueCode =
+    | "empty"
+    | "missingNode"
+    | "nodeCountMismatch"
+    | "edgeCountMismatch"
+    | "nonPositiveTravelTime"
+    | "invalidTurnRestriction"
+    | "unknownSpeedProfile"
+    | "disconnected"
+    /** Not a problem with the graph: the route worker could not start, so routes run on the UI thread */
+    | "workerUnavailable";
+
+export interface GraphIssue {
+    code: GraphIssueCode;
+    /** Errors leave the graph unusable; warnings mean some routes may be missing or inaccurate */
+    severity: "error" | "warning";
+    message: string;
+    /** Number of affected nodes, edges or components */
+    count: number;
+    /** A few affected node ids or edge indexes, to find the problem in the source data */
+    examples: string[];
+}
+
+/**
+ * Consistency report for a loaded graph
+ */
+export interface GraphDiagnostics {
+    nodeCount: number;
+    edgeCount: number;
+    /** Weakly connected components, counting edges whose nodes both exist */
+    componentCount: number;
+    /** Number of nodes in the largest component */
+    largestComponentSize: number;
+    issues: GraphIssue[];
+}
+
+const MAX_EXAMPLES = 3;
+
+function plural(count: number, noun: string): string {
+    return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+/**
+ * Check a schema-valid graph for problems that make routing fail or silently change its results
+ */
+export function validateGraph(graph: GraphData): GraphDiagnostics {
+    const issues: GraphIssue[] = [];
+    const nodeKeys = Object.keys(graph.nodes);
+    const nodeCount = nodeKeys.length;
+    const edgeCount = graph.edges.length;
+
+    const nodeIndexById = new Map<number, number>();
+    nodeKeys.forEach((key, nodeIndex) => nodeIndexById.set(graph.nodes[key].id, nodeIndex));
+
+    if (graph.node_count !== nodeCount) {
+        issues.push({
+            code: "nodeCountMismatch",
+            severity: "warning",
+            message: `node_count is ${graph.node_count}, but the graph contains ${nodeCount} nodes`,
+            count: Math.abs(graph.node_count - nodeCount),
+            examples: []
+        });
+    }
+    if (graph.edge_count !== edgeCount) {
+        issues.push({
+            code: "edgeCountMismatch",
+            severity: "warning",
+            message: `edge_count is ${graph.edge_count}, but the graph contains ${edgeCount} edges`,
+            count: Math.abs(graph.edge_count - edgeCount),
+            examples: []
+        });
+    }
+
+    // Union-find over node indexes, joined along every usable edge
+    const parent = new Int32Array(nodeCount);
+    for (let i = 0; i < nodeCount; i++) {
+        parent[i] = i;
+    }
+    const findRoot = (node: number): number => {
+        while (parent[node] !== node) {
+            parent[node] = parent[parent[node]];
+            node = parent[node];
+        }
+        return node;
+    };
+
+    const missingNodeEdges: string[] = [];
+    let missingNodeCount = 0;
+    const nonPositiveEdges: string[] = [];
+    let nonPositiveCount = 0;
+    let usableEdgeCount = 0;
+
+    graph.edges.forEach((edge, edgeIndex) => {
+        if (edge.travel_time <= 0) {
+            nonPositiveCount++;
+            if (nonPositiveEdges.length < MAX_EXAMPLES) {
+                nonPositiveEdges.push(`edges[${edgeIndex}] ${edge.from}→${edge.to}`);
+            }
+        }
+
+        const from = nodeIndexById.get(edge.from);
+        const to = nodeIndexById.get(edge.to);
+        if (from === undefined || to === undefined) {
+            missingNodeCount++;
+            if (missingNodeEdges.length < MAX_EXAMPLES) {
+                missingNodeEdges.push(`edges[${edgeIndex}] ${edge.from}→${edge.to}`);
+            }
+            return;
+        }
+        usableEdgeCount++;
+        const fromRoot = findRoot(from);
+        const toRoot = findRoot(to);
+        if (fromRoot !== toRoot) {
+            parent[fromRoot] = toRoot;
+        }
+    });
+
+    if (nodeCount === 0 || usableEdgeCount === 0) {
+        issues.push({
+            code: "empty",
+            severity: "error",
+            message: nodeCount === 0 ? "The graph has no nodes" : "The graph has no edges between existing nodes",
+            count: 0,
+            examples: []
+        });
+    }
+    if (missingNodeCount > 0) {
+        issues.push({
+            code: "missingNode",
+            severity: "warning",
+            message: `${plural(missingNodeCount, "edge")} reference${missingNodeCount === 1 ? "s" : ""} missing nodes and ${missingNodeCount === 1 ? "is" : "are"} ignored`,
+            count: missingNodeCount,
+            examples: missingNodeEdges
+        });
+    }
+    if (nonPositiveCount > 0) {
+        issues.push({
+            code: "nonPositiveTravelTime",
+            severity: "warning",
+            message: `${plural(nonPositiveCount, "edge")} with a zero or negative travel_time; travel time is estimated from length and speed instead`,
+            count: nonPositiveCount,
+            examples: nonPositiveEdges
+        });
+    }
+
+    // A restriction's from edge must arrive at its via node and its to edge leave it
+    const invalidRestrictions: string[] = [];
+    let invalidRestrictionCount = 0;
+    (graph.turn_restrictions || []).forEach((restriction, restrictionIndex) => {
+        const from = graph.edges[restriction.from];
+        const to = graph.edges[restriction.to];
+        if (!from || !to || from.to !== restriction.via || to.from !== restriction.via || !nodeIndexById.has(restriction.via)) {
+            invalidRestrictionCount++;
+            if (invalidRestrictions.length < MAX_EXAMPLES) {
+                invalidRestrictions.push(`turn_restrictions[${restrictionIndex}] via ${restriction.via}`);
+            }
+        }
+    });
+    if (invalidRestrictionCount > 0) {
+        issues.push({
+            code: "invalidTurnRestriction",
+            severity: "warning",
+            message: `${plural(invalidRestrictionCount, "turn restriction")} ${invalidRestrictionCount === 1 ? "does" : "do"} not match edges meeting at the via node and ${invalidRestrictionCount === 1 ? "is" : "are"} ignored`,
+            count: invalidRestrictionCount,
+            examples: invalidRestrictions
+        });
+    }
+
+    // Edges and road classes may only name speed profiles the graph defines
+    const unknownProfileReferences: string[] = [];
+    let unknownProfileCount = 0;
+    const profileExists = (name: string) => graph.speed_profiles !== undefined && Object.prototype.hasOwnProperty.call(graph.speed_profiles, name);
+    const noteUnknownProfile = (where: string) => {
+        unknownProfileCount++;
+        if (unknownProfileReferences.length < MAX_EXAMPLES) {
+            unknownProfileReferences.push(where);
+        }
+    };
+    graph.edges.forEach((edge, edgeIndex) => {
+        if (edge.speed_profile !== undefined && edge.speed_profile !== null && !profileExists(edge.speed_profile)) {
+            noteUnknownProfile(`edges[${edgeIndex}] "${edge.speed_profile}"`);
+        }
+    });
+    for (const highway of Object.keys(graph.highway_speed_profiles || {})) {
+        const name = graph.highway_speed_profiles![highway];
+        if (!profileExists(name)) {
+            noteUnknownProfile(`highway_speed_profiles.${highway} "${name}"`);
+        }
+    }
+    if (unknownProfileCount > 0) {
+        issues.push({
+            code: "unknownSpeedProfile",
+            severity: "warning",
+            message: `${plural(unknownProfileCount, "speed profile reference")} ${unknownProfileCount === 1 ? "names a profile" : "name profiles"} missing from speed_profiles; those roads are timed without traffic`,
+            count: unknownProfileCount,
+            examples: unknownProfileReferences
+        });
+    }
+
+    const componentSizes = new Map<number, number>();
+    for (let i = 0; i < nodeCount; i++) {
+        const root = findRoot(i);
+        componentSizes.set(root, (componentSizes.get(root) || 0) + 1);
+    }
+    let largestRoot = -1;
+    let largestComponentSize = 0;
+    componentSizes.forEach((size, root) => {
+        if (size > largestComponentSize) {
+            largestComponentSize = size;
+            largestRoot = root;
+        }
+    });
+
+    const componentCount = componentSizes.size;
+    if (componentCount > 1) {
+        // Name one node of each of the larger stray components
+        const strayExamples = Array.from(componentSizes.entries())
+            .filter(([root]) => root !== largestRoot)
+            .sort((a, b) => b[1] - a[1])
+            .slice(0, MAX_EXAMPLES)
+            .map(([root, size]) => `${plural(size, "node")} around node ${graph.nodes[nodeKeys[root]].id}`);
+        // Rounded down, so a graph with a few stray nodes does not claim 100%
+        const share = Math.floor(1000 * largestComponentSize / nodeCount) / 10;
+        issues.push({
+            code: "disconnected",
+            severity: "warning",
+            message: `The road network has ${componentCount} disconnected parts; the largest holds ${share}% of nodes. Stops in different parts cannot be connected`,
+            count: componentCount,
+            examples: strayExamples
+        });
+    }
+
+    return { nodeCount, edgeCount, componentCount, largestComponentSize, issues };
+}
@@ -0,0 +1,121 @@
+/**
+ * Placing and dragging the route's start and end markers on the Plotly map.
+ * Plotly does not report clicks on the map background or let markers be dragged,
+ * so this listens to the map instance Plotly creates for its mapbox subplot.
+ */
+
+import { Coordinate } from "./routingUtils";
+
+export type Endpoint = "start" | "end";
+
+/**
+ * Markers within this many pixels of the pointer can be dragged
+ */
+const MARKER_HIT_RADIUS_PX = 12;
+
+export interface MarkerEditingOptions {
+    /** Current marker positions; read on every pointer event */
+    markers: () => Array<{ endpoint: Endpoint; point: Coordinate }>;
+    /** Endpoint placed by the next click on the map, or null when clicks do not place markers */
+    placing: () => Endpoint | null;
+    /** Called while a marker is dragged, with its position under the pointer */
+    onDrag: (endpoint: Endpoint, point: Coordinate) => void;
+    /** Called when a marker is dropped or placed */
+    onMove: (endpoint: Endpoint, point: Coordinate) => void;
+}
+
+/**
+ * The parts of the mapbox-gl Map and its mouse events used here
+ */
+interface MapMouseEvent {
+    lngLat: { lng: number; lat: number };
+    point: { x: number; y: number };
+    originalEvent: MouseEvent;
+    preventDefault(): void;
+}
+
+interface MapboxMap {
+    on(type: string, listener: (event: MapMouseEvent) => void): void;
+    off(type: string, listener: (event: MapMouseEvent) => void): void;
+    project(lngLat: [number, number]): { x: number; y: number };
+    getCanvas(): HTMLCanvasElement;
+}
+
+/**
+ * The map of a plot's mapbox subplot, or null before it has been created
+ */
+export function getPlotMap(graphDiv: HTMLElement): MapboxMap | null {
+    const plot = graphDiv as unknown as { _fullLayout?: { mapbox?: { _subplot?: { map?: MapboxMap | null } } } };
+    return plot._fullLayout?.mapbox?._subplot?.map ?? null;
+}
+
+/**
+ * Listen for marker drags and placing clicks on a map. Returns a function that stops listening.
+ */
+export function attachMarkerEditing(map: MapboxMap, options: MarkerEditingOptions): () => void {
+    let dragging: Endpoint | null = null;
+    let dragged = false;
+    const toCoordinate = (event: MapMouseEvent): Coordinate => ({ lat: event.lngLat.lat, lon: event.lngLat.lng });
+
+    const markerAt = (event: MapMouseEvent): Endpoint | null => {
+        let nearest: Endpoint | null = null;
+        let nearestDistance = MARKER_HIT_RADIUS_PX;
+        for (const marker of options.markers()) {
+            const position = map.project([marker.point.lon, marker.point.lat]);
+            const distance = Math.hypot(position.x - event.point.x, position.y - event.point.y);
+            if (distance <= nearestDistance) {
+                nearest = marker.endpoint;
+                nearestDistance = distance;
+            }
+        }
+        return nearest;
+    };
+
+    const onMouseDown = (event: MapMouseEvent) => {
+        dragging = markerAt(event);
+        dragged = false;
+        if (dragging) {
+            // Keeps the map from panning while the marker moves
+            event.preventDefault();
+        }
+    };
+
+    const onMouseMove = (event: MapMouseEvent) => {
+        if (dragging && event.originalEvent.buttons === 0) {
+            dragging = null; // Released outside the map; the drag is abandoned
+        }
+        if (dragging) {
+            dragged = true;
+            options.onDrag(dragging, toCoordinate(event));
+            return;
+        }
+        const cursor = markerAt(event) ? "grab" : options.placing() ? "crosshair" : "";
+        map.getCanvas().style.cursor = cursor;
+    };
+
+    const onMouseUp = (event: MapMouseEvent) => {
+        if (dragging && dragged) {
+            options.onMove(dragging, toCoordinate(event));
+        }
+        dragging = null;
+    };
+
+    const onClick = (event: MapMouseEvent) => {
+        const endpoint = options.placing();
+        if (endpoint && !dragged) {
+            options.onMove(endpoint, toCoordinate(event));
+        }
+    };
+
+    map.on("mousedown", onMouseDown);
+    map.on("mousemove", onMouseMove);
+    map.on("mouseup", onMouseUp);
+    map.on("click", onClick);
+    return () => {
+        map.off("mousedown", onMouseDown);
+        map.off("mousemove", onMouseMove);
+        map.off("mouseup", onMouseUp);
+        map.off("click", onClick);
+        map.getCanvas().style.cursor = "";
+    };
+}
@@ -0,0 +1,130 @@
+/**
+ * Polyline helpers: decoding road geometry and simplifying lines for display
+ */
+
+import { Coordinate } from "./routingUtils";
+
+/**
+ * Decode an encoded polyline (Google polyline algorithm) into [lat, lon] pairs
+ */
+export function decodePolyline(encoded: string, precision: number = 5): Array<[number, number]> {
+    const factor = Math.pow(10, precision);
+    const points: Array<[number, number]> = [];
+    let position = 0;
+    let lat = 0;
+    let lon = 0;
+
+    const readValue = (): number => {
+        let result = 0;
+        let shift = 0;
+        let byte: number;
+        do {
+            if (position >= encoded.length) {
+                throw new Error("Encoded polyline ends in the middle of a value");
+            }
+            byte = encoded.charCodeAt(position++) - 63;
+            result |= (byte & 0x1f) << shift;
+            shift += 5;
+        } while (byte >= 0x20);
+        return result & 1 ? ~(result >> 1) : result >> 1;
+    };
+
+    while (position < encoded.length) {
+        lat += readValue();
+        lon += readValue();
+        points.push([lat / factor, lon / factor]);
+    }
+    return points;
+}
+
+/**
+ * Douglas-Peucker simplification. Points closer than `tolerance` degrees (of latitude)
+ * to the simplified line are dropped; the first and last points are always kept.
+ */
+export function simplifyPolyline(points: Coordinate[], tolerance: number): Coordinate[] {
+    if (points.length <= 2 || tolerance <= 0) {
+        return points;
+    }
+
+    // Work in a local equirectangular projection so east-west and north-south distances compare
+    const cosLat = Math.cos(points[0].lat * Math.PI / 180);
+    const keep = new Uint8Array(points.length);
+    keep[0] = 1;
+    keep[points.length - 1] = 1;
+    const toleranceSquared = tolerance * tolerance;
+
+    // Explicit stack rather than recursion, so long routes cannot overflow the call stack
+    const stack: Array<[number, number]> = [[0, points.length - 1]];
+    while (stack.length > 0) {
+        const [first, last] = stack.pop()!;
+        const ax = points[first].lon * cosLat;
+        const ay = points[first].lat;
+        const dx = points[last].lon * cosLat - ax;
+        const dy = points[last].lat - ay;
+        const lengthSquared = dx * dx + dy * dy;
+
+        let farthest = -1;
+        let farthestDistance = toleranceSquared;
+        for (let i = first + 1; i < last; i++) {
+            const px = points[i].lon * cosLat - ax;
+            const py = points[i].lat - ay;
+            const t = lengthSquared > 0 ? Math.min(Math.max((px * dx + py * dy) / lengthSquared, 0), 1) : 0;
+            const ex = px - t * dx;
+            const ey = py - t * dy;
+            const distance = ex * ex + ey * ey;
+            if (distance > farthestDistance) {
+                farthest = i;
+                farthestDistance = distance;
+            }
+        }
+
+        if (farthest !== -1) {
+            keep[farthest] = 1;
+            stack.push([first, farthest], [farthest, last]);
+        }
+    }
+
+    return points.filter((_, pointIndex) => keep[pointIndex] === 1);
+}
+
+/**
+ * Split a line into dashes for map traces, which cannot draw dashed lines themselves.
+ * `pattern` holds pairs of dash and gap lengths in degrees (of latitude); the dashes are returned as runs of points separated by nulls.
+ */
+export function dashPolyline(points: Coordinate[], pattern: number[]): Array<Coordinate | null> {
+    if (points.length < 2 || pattern.length < 2 || pattern.length % 2 !== 0 || pattern.some(length => !(length > 0))) {
+        return points;
+    }
+
+    const cosLat = Math.cos(points[0].lat * Math.PI / 180);
+    const dashed: Array<Coordinate | null> = [points[0]];
+    let patternIndex = 0;
+    let remaining = pattern[0];
+
+    for (let i = 1; i < points.length; i++) {
+        const from = points[i - 1];
+        const to = points[i];
+        const length = Math.hypot((to.lon - from.lon) * cosLat, to.lat - from.lat);
+
+        // Cut the segment wherever a dash or gap ends
+        let position = 0;
+        while (length - position > remaining) {
+            position += remaining;
+            const t = position / length;
+            const cut = { lat: from.lat + t * (to.lat - from.lat), lon: from.lon + t * (to.lon - from.lon) };
+            if (patternIndex % 2 === 0) {
+                dashed.push(cut, null); // End of a dash
+            } else {
+                dashed.push(cut); // End of a gap, start of the next dash
+            }
+            patternIndex = (patternIndex + 1) % pattern.length;
+            remaining = pattern[patternIndex];
+        }
+        remaining -= length - position;
+        if (patternIndex % 2 === 0) {
+            dashed.push(to);
+        }
+    }
+
+    return dashed;
+}
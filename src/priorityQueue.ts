@@ -0,0 +1,81 @@
+/**
+ * Binary min-heap used as the open set of the graph searches
+ */
+
+export class MinHeap {
+    private items: number[] = [];
+    private priorities: number[] = [];
+
+    public get size(): number {
+        return this.items.length;
+    }
+
+    public clear(): void {
+        this.items.length = 0;
+        this.priorities.length = 0;
+    }
+
+    /**
+     * Insert an item. Decrease-key is done by pushing the item again;
+     * callers skip the stale copy when it is popped later.
+     */
+    public push(item: number, priority: number): void {
+        let index = this.items.length;
+        this.items.push(item);
+        this.priorities.push(priority);
+
+        // Sift up
+        while (index > 0) {
+            const parent = (index - 1) >> 1;
+            if (this.priorities[parent] <= priority) {
+                break;
+            }
+            this.items[index] = this.items[parent];
+            this.priorities[index] = this.priorities[parent];
+            index = parent;
+        }
+        this.items[index] = item;
+        this.priorities[index] = priority;
+    }
+
+    public peekPriority(): number {
+        return this.priorities.length > 0 ? this.priorities[0] : Infinity;
+    }
+
+    /**
+     * Remove and return the item with the lowest priority, or -1 when empty
+     */
+    public pop(): number {
+        if (this.items.length === 0) {
+            return -1;
+        }
+
+        const top = this.items[0];
+        const lastItem = this.items.pop()!;
+        const lastPriority = this.priorities.pop()!;
+        const length = this.items.length;
+
+        if (length > 0) {
+            // Sift down
+            let index = 0;
+            while (true) {
+                const left = 2 * index + 1;
+                if (left >= length) {
+                    break;
+                }
+                const right = left + 1;
+                const child = right < length && this.priorities[right] < this.priorities[left] ? right : left;
+                if (this.priorities[child] >= lastPriority) {
+                    break;
+                }
+                this.items[index] = this.items[child];
+                this.priorities[index] = this.priorities[child];
+                index = child;
+            }
+            this.items[index] = lastItem;
+            this.priorities[index] = lastPriority;
+        }
+
+        return top;
+    }
+}
@@ -0,0 +1,280 @@
+/**
+ * Route worker: parses and indexes the graph and calculates routes off the UI thread.
+ * The same handler also runs in-thread when a Worker cannot be created.
+ */
+
+import {
+    attachContractionHierarchy,
+    calculateAlternativeRoutes,
+    calculateIsochrone,
+    calculateMultiStopRoute,
+    GraphData,
+    IsochroneResult,
+    optimiseStopOrder,
+    prepareGraph,
+    RoutingOptions,
+    setCancellationCheck
+} from "./routingUtils";
+import { decodeContractionHierarchy, isHierarchyBinary } from "./contractionHierarchy";
+import { decodeGraphBinary, isGraphBinary } from "./graphBinary";
+import { assertGraphData, validateGraph } from "./graphValidation";
+import { VEHICLE_PROFILE_IDS } from "./vehicleProfiles";
+import {
+    CalculatedRoute,
+    ComputeJob,
+    GraphSource,
+    ProfileTravelTime,
+    RouteRequest,
+    WorkerRequest,
+    WorkerResponse
+} from "./routeWorkerProtocol";
+
+/**
+ * Time spent calculating before yielding, so cancel messages are picked up and progress is reported
+ */
+const BATCH_TIME_MS = 50;
+
+/**
+ * The job's routing options, with the request's own departure time when it has one
+ */
+function requestRoutingOptions(request: RouteRequest, job: ComputeJob): RoutingOptions {
+    return request.departure !== undefined ? { ...job.routingOptions, departure: request.departure } : job.routingOptions;
+}
+
+/**
+ * Route one request through its stops, optimising their order when enabled.
+ * Alternatives are only looked for on routes without waypoints.
+ */
+function calculateRequestedRoute(graphData: GraphData, request: RouteRequest, job: ComputeJob): CalculatedRoute {
+    const { stopOrderOptions, alternativeOptions } = job;
+    const routingOptions = requestRoutingOptions(request, job);
+    const stops = [request.start, ...request.waypoints, request.end];
+    const canReorder = stops.length > 2 || stopOrderOptions.mode === "roundTrip";
+
+    if (stopOrderOptions.optimise && canReorder) {
+        const optimised = optimiseStopOrder(graphData, stops, stopOrderOptions.mode, routingOptions);
+        return { request, result: optimised.route, stopOrder: optimised.order, inputResult: optimised.inputRoute };
+    }
+
+    if (alternativeOptions.count > 0 && stops.length === 2) {
+        const [result, ...alternatives] = calculateAlternativeRoutes(graphData, request.start, request.end, alternativeOptions, routingOptions);
+        return { request, result, alternatives };
+    }
+
+    return { request, result: calculateMultiStopRoute(graphData, stops, routingOptions) };
+}
+
+/**
+ * Travel time of a calculated route's stops, in its visiting order, for every vehicle profile.
+ * The route's own profile keeps the time already calculated.
+ */
+function compareProfileTimes(graphData: GraphData, route: CalculatedRoute, job: ComputeJob): ProfileTravelTime[] {
+    const { request, stopOrder } = route;
+    const { stopOrderOptions } = job;
+    const routingOptions = requestRoutingOptions(request, job);
+    const inputStops = [request.start, ...request.waypoints, request.end];
+    let stops = stopOrder ? stopOrder.map(stopIndex => inputStops[stopIndex]) : inputStops;
+    if (stopOrder && stopOrderOptions.mode === "roundTrip") {
+        stops = [...stops, stops[0]];
+    }
+
+    const current = routingOptions.vehicle || "car";
+    return VEHICLE_PROFILE_IDS.map(vehicle => {
+        if (vehicle === current) {
+            return { vehicle, travelTime: route.result.totalTime };
+        }
+        try {
+            return { vehicle, travelTime: calculateMultiStopRoute(graphData, stops, { ...routingOptions, vehicle }).totalTime };
+        } catch {
+            return { vehicle, travelTime: null };
+        }
+    });
+}
+
+/**
+ * Parse a downloaded graph file. Binary graphs are recognised by their magic number,
+ * anything else is parsed as JSON.
+ */
+function parseGraphFile(buffer: ArrayBuffer, label: string): GraphData {
+    let parsed: unknown;
+    try {
+        parsed = isGraphBinary(buffer)
+            ? decodeGraphBinary(buffer)
+            : JSON.parse(new TextDecoder().decode(buffer));
+    } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        throw new Error(`${label}: not a JSON or binary graph file (${reason})`);
+    }
+    return assertGraphData(parsed, label);
+}
+
+/**
+ * Attach the contraction hierarchy stored next to a downloaded graph (osm_graph.ch.bin for
+ * osm_graph.bin or osm_graph.json), when there is one. Without it routes are found with A*,
+ * so a missing, invalid or outdated hierarchy only costs speed.
+ */
+async function loadContractionHierarchy(graph: GraphData, graphUrl: string): Promise<void> {
+    const url = new URL(graphUrl);
+    url.pathname = url.pathname.replace(/\.(bin|json)$/i, "") + ".ch.bin";
+    try {
+        const response = await fetch(url.href);
+        if (!response.ok) {
+            return;
+        }
+        const buffer = await response.arrayBuffer();
+        if (isHierarchyBinary(buffer)) {
+            attachContractionHierarchy(graph, decodeContractionHierarchy(buffer));
+        }
+    } catch (error) {
+        console.warn(`Ignoring contraction hierarchy ${url.href}:`, error);
+    }
+}
+
+async function loadGraph(source: GraphSource): Promise<GraphData> {
+    if (source.kind === "data") {
+        return assertGraphData(source.graph, source.label);
+    }
+
+    const failures: string[] = [];
+    for (const url of source.urls) {
+        let buffer: ArrayBuffer;
+        try {
+            const response = await fetch(url);
+            if (!response.ok) {
+                failures.push(`${url}: ${response.status} ${response.statusText}`);
+                continue;
+            }
+            buffer = await response.arrayBuffer();
+        } catch (error) {
+            failures.push(`${url}: ${error instanceof Error ? error.message : String(error)}`);
+            continue;
+        }
+        // A file that was found but is invalid is reported, not skipped for the next candidate
+        const graph = parseGraphFile(buffer, source.label);
+        await loadContractionHierarchy(graph, url);
+        return graph;
+    }
+    throw new Error(`${source.label}: could not be downloaded (${failures.join("; ")})`);
+}
+
+/**
+ * Create the message handler. `post` sends responses back to the visual.
+ */
+export function createRouteWorkerHandler(post: (message: WorkerResponse) => void): (message: WorkerRequest) => void {
+    let graphData: GraphData | null = null;
+    let graphLoading: Promise<GraphData> | null = null;
+    const activeJobs = new Set<number>();
+
+    const runJob = async (requestId: number, job: ComputeJob, cancelFlag: Int32Array | null) => {
+        if (!graphLoading) {
+            post({ type: "error", requestId, message: "Graph data not loaded" });
+            return;
+        }
+        const graph = graphData || await graphLoading;
+        // A cancel message is answered when it arrives; the shared flag is seen before that, mid-search
+        const isCancelled = () => !activeJobs.has(requestId) || (cancelFlag !== null && Atomics.load(cancelFlag, 0) === 1);
+        const checkCancelled = () => {
+            if (isCancelled()) {
+                throw new Error("Calculation cancelled");
+            }
+        };
+
+        const routes: CalculatedRoute[] = [];
+        const isochrones: IsochroneResult[] = [];
+        const failures: string[] = [];
+        let lastError: string | null = null;
+        let batchStart = Date.now();
+
+        for (let i = 0; i < job.routes.length; i++) {
+            if (Date.now() - batchStart > BATCH_TIME_MS) {
+                post({ type: "progress", requestId, progress: { completed: i, total: job.routes.length } });
+                // Yield so a cancel message for this job can be handled
+                await new Promise(resolve => setTimeout(resolve, 0));
+                batchStart = Date.now();
+            }
+            if (isCancelled()) {
+                return;
+            }
+
+            const request = job.routes[i];
+            setCancellationCheck(checkCancelled);
+            try {
+                if (job.isochroneOptions.enabled) {
+                    isochrones.push(calculateIsochrone(graph, request.start, job.isochroneOptions.budgets, requestRoutingOptions(request, job)));
+                } else {
+                    const route = calculateRequestedRoute(graph, request, job);
+                    if (job.compareProfiles) {
+                        route.profileTimes = compareProfileTimes(graph, route, job);
+                    }
+                    routes.push(route);
+                }
+            } catch (error) {
+                if (isCancelled()) {
+                    return;
+                }
+                lastError = error instanceof Error ? error.message : "Failed to calculate route";
+                failures.push(request.label);
+            } finally {
+                setCancellationCheck(null);
+            }
+        }
+
+        activeJobs.delete(requestId);
+        post({ type: "result", requestId, result: { routes, isochrones, failures, lastError } });
+    };
+
+    return (message: WorkerRequest) => {
+        switch (message.type) {
+            case "loadGraph": {
+                graphData = null;
+                const loading = loadGraph(message.source);
+                graphLoading = loading;
+                loading.then(graph => {
+                    if (graphLoading !== loading) {
+                        post({ type: "cancelled", requestId: message.requestId }); // Superseded by a newer graph
+                        return;
+                    }
+                    // Index the graph now rather than on the first route
+                    prepareGraph(graph);
+                    graphData = graph;
+                    const diagnostics = validateGraph(graph);
+                    post({
+                        type: "graphLoaded",
+                        requestId: message.requestId,
+                        summary: { nodeCount: diagnostics.nodeCount, edgeCount: diagnostics.edgeCount, diagnostics }
+                    });
+                }).catch(error => {
+                    if (graphLoading !== loading) {
+                        post({ type: "cancelled", requestId: message.requestId });
+                        return;
+                    }
+                    post({ type: "error", requestId: message.requestId, message: error instanceof Error ? error.message : String(error) });
+                });
+                break;
+            }
+            case "compute":
+                activeJobs.add(message.requestId);
+                runJob(message.requestId, message.job, message.cancelFlag).catch(error => {
+                    activeJobs.delete(message.requestId);
+                    post({ type: "error", requestId: message.requestId, message: error instanceof Error ? error.message : String(error) });
+                });
+                break;
+            case "cancel":
+                // Answered straight away, so the visual knows the worker is not stuck in a long search
+                if (activeJobs.delete(message.requestId)) {
+                    post({ type: "cancelled", requestId: message.requestId });
+                }
+                break;
+        }
+    };
+}
+
+// When loaded as a worker script (no window), answer messages from the visual
+if (typeof window === "undefined" && typeof self !== "undefined") {
+    const workerScope = self as unknown as {
+        onmessage: ((event: MessageEvent<WorkerRequest>) => void) | null;
+        postMessage(message: WorkerResponse): void;
+    };
+    const handle = createRouteWorkerHandler(message => workerScope.postMessage(message));
+    workerScope.onmessage = event => handle(event.data);
+}
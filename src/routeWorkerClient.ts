@@ -0,0 +1,230 @@
+/**
+ * Visual-side handle on the route worker
+ */
+
+import { createRouteWorkerHandler } from "./routeWorker";
+import { ROUTE_WORKER_SOURCE } from "./routeWorkerSource";
+import {
+    ComputeJob,
+    ComputeProgress,
+    ComputeResult,
+    GraphSource,
+    GraphSummary,
+    WorkerRequest,
+    WorkerResponse
+} from "./routeWorkerProtocol";
+
+export interface ComputeTask {
+    promise: Promise<ComputeResult>;
+    cancel(): void;
+}
+
+/**
+ * Error used to reject the promise of a cancelled task
+ */
+export class CancelledError extends Error {
+    constructor() {
+        super("Calculation cancelled");
+        this.name = "CancelledError";
+    }
+}
+
+interface PendingRequest {
+    message: WorkerRequest;
+    resolve(value: unknown): void;
+    reject(error: Error): void;
+    onProgress?(progress: ComputeProgress): void;
+}
+
+/**
+ * How long a worker may take to acknowledge a cancelled job before it is assumed to be stuck
+ * in a long search and restarted. Workers answer between searches, and checks inside searches
+ * see the shared cancel flag, so only pages without shared memory ever need the restart.
+ */
+const CANCEL_ACK_TIMEOUT_MS = 250;
+
+export class RouteWorkerClient {
+    private worker: Worker | null = null;
+    private workerUrl: string | null = null;
+    private inThreadHandler: ((message: WorkerRequest) => void) | null = null;
+    private pending = new Map<number, PendingRequest>();
+    /** Cancelled jobs the worker has not acknowledged yet, with their restart timers */
+    private cancelling = new Map<number, number>();
+    /** The latest graph load, sent again when the worker is restarted */
+    private graphRequest: WorkerRequest | null = null;
+    private nextRequestId = 1;
+    private receivedMessage = false;
+    private fallback: string | null = null;
+
+    /**
+     * `onFallback` is called if routes have to be calculated on the UI thread instead of in a worker
+     */
+    constructor(private readonly onFallback?: () => void) {
+        this.startWorker();
+    }
+
+    /**
+     * Why routes are calculated on the UI thread, or null while the worker is in use
+     */
+    public get fallbackReason(): string | null {
+        return this.fallback;
+    }
+
+    public loadGraph(source: GraphSource): Promise<GraphSummary> {
+        return new Promise<GraphSummary>((resolve, reject) => {
+            const message: WorkerRequest = { type: "loadGraph", requestId: this.nextRequestId++, source };
+            this.graphRequest = message;
+            this.pending.set(message.requestId, { message, resolve, reject });
+            this.send(message);
+        });
+    }
+
+    public compute(job: ComputeJob, onProgress?: (progress: ComputeProgress) => void): ComputeTask {
+        const requestId = this.nextRequestId++;
+        // Shared memory needs a cross-origin isolated page; without it, cancelling relies on messages
+        const cancelFlag = typeof SharedArrayBuffer !== "undefined" && typeof crossOriginIsolated !== "undefined" && crossOriginIsolated
+            ? new Int32Array(new SharedArrayBuffer(4))
+            : null;
+        const message: WorkerRequest = { type: "compute", requestId, job, cancelFlag };
+        const promise = new Promise<ComputeResult>((resolve, reject) => {
+            this.pending.set(requestId, { message, resolve, reject, onProgress });
+        });
+        this.send(message);
+
+        return {
+            promise,
+            cancel: () => {
+                const request = this.pending.get(requestId);
+                if (!request) {
+                    return;
+                }
+                this.pending.delete(requestId);
+                request.reject(new CancelledError());
+                if (cancelFlag) {
+                    Atomics.store(cancelFlag, 0, 1);
+                }
+                if (this.worker) {
+                    this.cancelling.set(requestId, window.setTimeout(() => this.restartWorker(), CANCEL_ACK_TIMEOUT_MS));
+                }
+                this.send({ type: "cancel", requestId });
+            }
+        };
+    }
+
+    public dispose(): void {
+        this.stopWorker();
+        this.inThreadHandler = null;
+        for (const request of this.pending.values()) {
+            request.reject(new CancelledError());
+        }
+        this.pending.clear();
+    }
+
+    private startWorker(): void {
+        try {
+            this.workerUrl = URL.createObjectURL(new Blob([ROUTE_WORKER_SOURCE], { type: "text/javascript" }));
+            this.worker = new Worker(this.workerUrl);
+            this.receivedMessage = false;
+            this.worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+                this.receivedMessage = true;
+                this.handleResponse(event.data);
+            };
+            this.worker.onerror = (event) => {
+                // A worker that never answered most likely failed to load: keep going on the UI thread
+                if (!this.receivedMessage) {
+                    event.preventDefault();
+                    this.fallBackToInThread(event.message || "the worker script failed to load");
+                }
+            };
+        } catch (error) {
+            this.fallBackToInThread(error instanceof Error ? error.message : String(error));
+        }
+    }
+
+    private stopWorker(): void {
+        this.worker?.terminate();
+        this.worker = null;
+        if (this.workerUrl) {
+            URL.revokeObjectURL(this.workerUrl);
+            this.workerUrl = null;
+        }
+        this.cancelling.forEach(timer => window.clearTimeout(timer));
+        this.cancelling.clear();
+    }
+
+    /**
+     * Replace a worker stuck in a cancelled search with a new one, which loads the graph again
+     * and takes over the jobs that are still wanted
+     */
+    private restartWorker(): void {
+        this.stopWorker();
+        this.startWorker();
+        this.replay();
+    }
+
+    private send(message: WorkerRequest): void {
+        if (this.worker) {
+            this.worker.postMessage(message);
+        } else if (this.inThreadHandler) {
+            const handler = this.inThreadHandler;
+            // Asynchronous like postMessage, so callers see the same ordering
+            setTimeout(() => handler(message), 0);
+        }
+    }
+
+    /**
+     * Send the latest graph, then every job not answered yet in the order it was first sent.
+     * The answer to a graph load that was already answered is ignored.
+     */
+    private replay(): void {
+        if (this.graphRequest) {
+            this.send(this.graphRequest);
+        }
+        for (const request of this.pending.values()) {
+            if (request.message !== this.graphRequest) {
+                this.send(request.message);
+            }
+        }
+    }
+
+    private fallBackToInThread(reason: string): void {
+        console.warn('Route worker unavailable, calculating on the UI thread:', reason);
+        this.stopWorker();
+        this.fallback = reason;
+        this.inThreadHandler = createRouteWorkerHandler(message => this.handleResponse(message));
+        this.replay();
+        this.onFallback?.();
+    }
+
+    private handleResponse(message: WorkerResponse): void {
+        const restartTimer = this.cancelling.get(message.requestId);
+        if (restartTimer !== undefined && message.type !== "progress") {
+            window.clearTimeout(restartTimer);
+            this.cancelling.delete(message.requestId);
+        }
+
+        const request = this.pending.get(message.requestId);
+        if (!request) {
+            return; // Cancelled or superseded
+        }
+
+        switch (message.type) {
+            case "progress":
+                request.onProgress?.(message.progress);
+                return;
+            case "graphLoaded":
+                request.resolve(message.summary);
+                break;
+            case "result":
+                request.resolve(message.result);
+                break;
+            case "error":
+                request.reject(new Error(message.message));
+                break;
+            case "cancelled":
+                request.reject(new CancelledError());
+                break;
+        }
+        this.pending.delete(message.requestId);
+    }
+}
@@ -0,0 +1,115 @@
+/**
+ * Messages exchanged between the visual and the route worker
+ */
+
+import { GraphDiagnostics } from "./graphValidation";
+import { AlternativeRouteOptions, Coordinate, GraphData, IsochroneResult, RouteResult, RoutingOptions, StopOrderMode } from "./routingUtils";
+import { VehicleProfileId } from "./vehicleProfiles";
+
+export interface RouteRequest {
+    id: string;
+    label: string;
+    start: Coordinate;
+    end: Coordinate;
+    /** Intermediate stops, in visiting order */
+    waypoints: Coordinate[];
+    category?: string;
+    color: string;
+    /** Departure time in seconds after Monday 00:00, overriding RoutingOptions.departure */
+    departure?: number;
+}
+
+export interface StopOrderOptions {
+    optimise: boolean;
+    mode: StopOrderMode;
+}
+
+export interface IsochroneOptions {
+    enabled: boolean;
+    /** Time budgets in seconds */
+    budgets: number[];
+}
+
+/**
+ * Travel time of a route for one vehicle profile
+ */
+export interface ProfileTravelTime {
+    vehicle: VehicleProfileId;
+    /** Seconds, or null when the vehicle cannot make the trip */
+    travelTime: number | null;
+}
+
+export interface CalculatedRoute {
+    request: RouteRequest;
+    result: RouteResult;
+    /** Visiting order of [start, ...waypoints, end] when the order was optimised */
+    stopOrder?: number[];
+    /** The route in input order, when the order was optimised */
+    inputResult?: RouteResult;
+    /** Other reasonable routes between start and end, best first, when alternatives were requested */
+    alternatives?: RouteResult[];
+    /** The same stops, in the same order, routed for every vehicle profile when profiles are compared */
+    profileTimes?: ProfileTravelTime[];
+}
+
+/**
+ * Everything needed to calculate the routes (or isochrones) shown by one render
+ */
+export interface ComputeJob {
+    routes: RouteRequest[];
+    routingOptions: RoutingOptions;
+    stopOrderOptions: StopOrderOptions;
+    isochroneOptions: IsochroneOptions;
+    alternativeOptions: AlternativeRouteOptions;
+    /** Whether to route every request for each vehicle profile as well */
+    compareProfiles: boolean;
+}
+
+export interface ComputeResult {
+    routes: CalculatedRoute[];
+    isochrones: IsochroneResult[];
+    /** Labels of the requests that could not be calculated */
+    failures: string[];
+    /** Message of the last failure, if any */
+    lastError: string | null;
+}
+
+export interface ComputeProgress {
+    completed: number;
+    total: number;
+}
+
+/**
+ * Where the worker gets its graph from: candidate URLs tried in order, or an already parsed graph.
+ * `label` names the source in error messages.
+ */
+export type GraphSource =
+    | { kind: "url"; label: string; urls: string[] }
+    | { kind: "data"; label: string; graph: GraphData };
+
+export interface GraphSummary {
+    nodeCount: number;
+    edgeCount: number;
+    diagnostics: GraphDiagnostics;
+}
+
+export type WorkerRequest =
+    | { type: "loadGraph"; requestId: number; source: GraphSource }
+    | {
+        type: "compute";
+        requestId: number;
+        job: ComputeJob;
+        /**
+         * Shared flag the visual sets to 1 to cancel the job, seen even in the middle of a search;
+         * null where shared memory is unavailable (pages that are not cross-origin isolated)
+         */
+        cancelFlag: Int32Array | null;
+    }
+    | { type: "cancel"; requestId: number };
+
+export type WorkerResponse =
+    | { type: "graphLoaded"; requestId: number; summary: GraphSummary }
+    | { type: "progress"; requestId: number; progress: ComputeProgress }
+    | { type: "result"; requestId: number; result: ComputeResult }
+    | { type: "error"; requestId: number; message: string }
+    | { type: "cancelled"; requestId: number };
@@ -0,0 +1,4 @@
+/**
+ * The route worker and its imports as one script, generated into routeWorkerSource.js by `npm run bundle-worker`
+ */
+export declare const ROUTE_WORKER_SOURCE: string;
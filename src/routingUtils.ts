@@ -2,6 +2,12 @@
  * Routing utilities for calculating routes using OSM graph data
  */
 
+import { buildContractionHierarchy, ContractionHierarchy, graphChecksum, queryContractionHierarchy, WeightedGraph } from "./contractionHierarchy";
+import { decodePolyline } from "./polyline";
+import { MinHeap } from "./priorityQueue";
+import { SpatialGrid } from "./spatialIndex";
+import { DEFAULT_TRUCK_DIMENSIONS, profileSpeed, VEHICLE_PROFILES, VehicleDimensions, VehicleProfile, VehicleProfileId } from "./vehicleProfiles";
+
 export interface GraphNode {
     id: number;
     lat: number;
@@ -14,6 +20,43 @@ export interface GraphEdge {
     length: number;
     travel_time: number;
     maxspeed?: number;
+    /**
+     * Road shape from the `from` node to the `to` node, as [lat, lon] pairs or an encoded
+     * polyline (precision 5). The end points may be left out. Without a geometry the
+     * road is drawn as a straight line between its nodes.
+     */
+    geometry?: Array<[number, number]> | string;
+    /** Street name, used in directions */
+    name?: string;
+    /** Road class, e.g. OpenStreetMap's "residential" or "motorway" */
+    highway?: string;
+    /** True for toll roads */
+    toll?: boolean;
+    /** True for ferry crossings */
+    ferry?: boolean;
+    /** False when the road is closed to cars; cars and trucks are never routed over or snapped to such edges */
+    access?: boolean;
+    /** Height limit in metres, for vehicle profiles that check dimensions */
+    maxheight?: number;
+    /** Weight limit in tonnes, for vehicle profiles that check dimensions */
+    maxweight?: number;
+    /** Name of the entry in GraphData.speed_profiles that gives this road's traffic by hour of the week */
+    speed_profile?: string;
+}
+
+/**
+ * A turn that may not be made, or the only turn that may be made, from one edge onto
+ * another at the node they share. Edges are given by their position in GraphData.edges.
+ */
+export interface TurnRestriction {
+    /** Id of the node where the turn is made */
+    via: number;
+    /** Edge arriving at the via node */
+    from: number;
+    /** Edge leaving the via node */
+    to: number;
+    /** "no" forbids this turn (the default); "only" forbids every other turn from the `from` edge */
+    type?: "no" | "only";
 }
 
 export interface GraphData {
@@ -21,6 +64,15 @@ export interface GraphData {
     edges: GraphEdge[];
     node_count: number;
     edge_count: number;
+    turn_restrictions?: TurnRestriction[];
+    /**
+     * Speed factors by hour of the week (168 values from Monday 00:00) or of the day
+     * (24 values, the same every day), e.g. 0.6 where traffic slows roads to 60% of their
+     * free-flow speed. Edges refer to them by name.
+     */
+    speed_profiles?: { [name: string]: number[] };
+    /** Speed profile for edges of each road class that do not name their own */
+    highway_speed_profiles?: { [highway: string]: string };
 }
 
 export interface Coordinate {
@@ -29,208 +81,2115 @@ export interface Coordinate {
 }
 
 /**
- * Find the nearest node in the graph to a given coordinate
+ * One graph edge traversed by a route
  */
-export function findNearestNode(graph: GraphData, point: Coordinate): number {
-    let minDistance = Infinity;
-    let nearestNodeId = -1;
+export interface RouteEdgeStats {
+    from: number;
+    to: number;
+    /** Edge length in metres */
+    length: number;
+    /** Edge travel time in seconds */
+    travelTime: number;
+    name?: string;
+    highway?: string;
+    /** Whether the route drives the edge up to its `to` node, rather than stopping part-way along it */
+    endsAtNode: boolean;
+    /** First and last index in RouteResult.coordinates of the edge's shape */
+    startIndex: number;
+    endIndex: number;
+}
 
-    for (const nodeId in graph.nodes) {
-        const node = graph.nodes[nodeId];
-        const distance = haversineDistance(point.lat, point.lon, node.lat, node.lon);
-        
-        if (distance < minDistance) {
-            minDistance = distance;
-            nearestNodeId = node.id;
-        }
-    }
+/**
+ * The part of a route between two consecutive stops
+ */
+export interface RouteLeg {
+    start: Coordinate;
+    end: Coordinate;
+    /** Index in RouteResult.coordinates where this leg begins */
+    startIndex: number;
+    /** Leg length in metres */
+    totalDistance: number;
+    /** Leg travel time in seconds */
+    totalTime: number;
+    /** When the leg's end is reached, in seconds after Monday 00:00, for routes with a departure time */
+    arrivalTime?: number;
+}
 
-    return nearestNodeId;
+/**
+ * A calculated route with its geometry and the totals of the edges it uses
+ */
+export interface RouteResult {
+    /** Route geometry, from the start snapped onto its road to the end snapped onto its road */
+    coordinates: Coordinate[];
+    /** Graph nodes passed, in order */
+    nodeIds: number[];
+    edges: RouteEdgeStats[];
+    legs: RouteLeg[];
+    /** Total length in metres */
+    totalDistance: number;
+    /** Total travel time in seconds */
+    totalTime: number;
+    /** Departure time in seconds after Monday 00:00, when one was given */
+    departureTime?: number;
+    /** Arrival time (ETA) in seconds after Monday 00:00, when a departure time was given */
+    arrivalTime?: number;
 }
 
 /**
- * Calculate haversine distance between two points in kilometers
+ * Which stops keep their position when the visiting order is optimised.
+ * A round trip starts at the first stop and returns to it.
  */
-function haversineDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
-    const R = 6371; // Earth's radius in km
-    const dLat = toRadians(lat2 - lat1);
-    const dLon = toRadians(lon2 - lon1);
-    
-    const a = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-              Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) *
-              Math.sin(dLon / 2) * Math.sin(dLon / 2);
-    
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    return R * c;
+export type StopOrderMode = "fixedStart" | "fixedEnd" | "fixedStartEnd" | "roundTrip";
+
+/**
+ * Result of optimising the visiting order of a set of stops
+ */
+export interface OptimisedStopOrder {
+    /** Visiting order as indexes into the input stops; round trips return to order[0] */
+    order: number[];
+    route: RouteResult;
+    /** The same stops visited in input order, for comparison */
+    inputRoute: RouteResult;
 }
 
-function toRadians(degrees: number): number {
-    return degrees * (Math.PI / 180);
+/**
+ * Roads reachable from an origin within one time budget
+ */
+export interface IsochroneBand {
+    /** Time budget in seconds */
+    budget: number;
+    /** Road shapes first reachable within this budget (not within a smaller one) */
+    segments: Coordinate[][];
+    /** Total length of those segments in metres */
+    roadLength: number;
+}
+
+export interface IsochroneResult {
+    origin: Coordinate;
+    /** Bands in ascending budget order */
+    bands: IsochroneBand[];
 }
 
 /**
- * Build adjacency list from graph edges
+ * What a route minimises: travel time, distance, or a blend of both
  */
-function buildAdjacencyList(graph: GraphData): Map<number, Array<{ node: number; weight: number }>> {
-    const adjacencyList = new Map<number, Array<{ node: number; weight: number }>>();
+export type RoutingObjective = "fastest" | "shortest" | "weighted";
 
-    for (const edge of graph.edges) {
-        if (!adjacencyList.has(edge.from)) {
-            adjacencyList.set(edge.from, []);
-        }
-        
-        // Use travel_time as weight (for fastest route) or length (for shortest)
-        const weight = edge.travel_time > 0 ? edge.travel_time : edge.length;
-        
-        adjacencyList.get(edge.from)!.push({
-            node: edge.to,
-            weight: weight
-        });
-    }
+export interface RoutingOptions {
+    objective?: RoutingObjective;
+    /** Share of travel time in the "weighted" objective, from 0 (distance only) to 1 (time only) */
+    timeWeight?: number;
+    /** Furthest a stop may be from the nearest road, in metres; 0 or undefined for no limit */
+    maxSnapDistance?: number;
+    /** Avoid motorways (and their slip roads) where there is a reasonable way around */
+    avoidMotorways?: boolean;
+    /** Avoid toll roads where there is a reasonable way around */
+    avoidTolls?: boolean;
+    /** Avoid ferries where there is a reasonable way around */
+    avoidFerries?: boolean;
+    /** Who travels the route; "car" by default, which uses the edges' own travel times */
+    vehicle?: VehicleProfileId;
+    /** Vehicle size for profiles that check height and weight limits; DEFAULT_TRUCK_DIMENSIONS if left out */
+    vehicleDimensions?: VehicleDimensions;
+    /**
+     * Departure time in seconds after Monday 00:00. Routes then report their arrival time, and
+     * in graphs with speed profiles the fastest route is found for the traffic on the way.
+     */
+    departure?: number;
+}
 
-    return adjacencyList;
+/**
+ * How many alternatives to a route to look for, and how much longer than the best route they may be
+ */
+export interface AlternativeRouteOptions {
+    /** Number of alternatives besides the best route; 0 for none */
+    count: number;
+    /** Largest cost of an alternative as a multiple of the best route's cost, e.g. 1.5 */
+    maxDetour: number;
 }
 
 /**
- * Calculate heuristic distance (Haversine) from a node to the goal
- * This is used in A* algorithm to guide the search
+ * Speed assumed for edges with neither a usable travel_time nor a maxspeed, in km/h
  */
-function heuristicDistance(graph: GraphData, nodeId: number, endNodeId: number): number {
-    const node = graph.nodes[nodeId.toString()];
-    const endNode = graph.nodes[endNodeId.toString()];
-    
-    if (!node || !endNode) {
-        return Infinity;
+const DEFAULT_SPEED_KMH = 50;
+
+/**
+ * Speed used to express distance in seconds for the "weighted" objective, in km/h,
+ * for profiles without a speed of their own
+ */
+const WEIGHTED_REFERENCE_SPEED_KMH = 50;
+
+/**
+ * Cost multiplier for roads the route should avoid. Avoided roads are still used
+ * when the way around them would cost this many times more.
+ */
+const AVOIDED_ROAD_FACTOR = 10;
+
+/**
+ * Road classes avoided by RoutingOptions.avoidMotorways
+ */
+const MOTORWAY_CLASSES = new Set(["motorway", "motorway_link"]);
+
+const SECONDS_PER_HOUR = 3600;
+const HOURS_PER_WEEK = 168;
+const SECONDS_PER_WEEK = HOURS_PER_WEEK * SECONDS_PER_HOUR;
+
+/**
+ * Search-friendly view of a GraphData, built once per loaded graph.
+ * Nodes are addressed by dense indexes; outgoing edges are stored in CSR form
+ * (edges of node i live in edgeTargets[edgeOffsets[i]..edgeOffsets[i + 1]]).
+ */
+interface RoutingIndex {
+    nodeIds: number[];
+    nodeIndexById: Map<number, number>;
+    lats: Float64Array;
+    lons: Float64Array;
+    edgeOffsets: Uint32Array;
+    edgeTargets: Uint32Array;
+    /** Source node of each CSR edge */
+    edgeSources: Uint32Array;
+    /** Position of each CSR edge in GraphData.edges */
+    edgeRefs: Uint32Array;
+    nodeGrid: SpatialGrid;
+    /** CSR edges by their bounding box, for snapping coordinates onto road segments */
+    edgeGrid: SpatialGrid;
+    /**
+     * Shape of each CSR edge with a geometry, as lat/lon pairs from its source to its target
+     * node; null for straight edges
+     */
+    edgeShapes: Array<Float64Array | null>;
+    /** 1 for CSR edges closed to cars */
+    edgeClosed: Uint8Array;
+    /**
+     * 1 for CSR edges that run against a one-way road, for profiles that may use it both
+     * ways; their edgeRefs entry is the one-way edge
+     */
+    edgeReversed: Uint8Array;
+    /** Turn rules by the CSR position of the edge turned from; null when the graph has no turn restrictions */
+    turnRules: Map<number, TurnRule> | null;
+    /** Hourly traffic of the CSR edges; null when no edge has a speed profile */
+    traffic: TrafficSchedule | null;
+    search: SearchState;
+    /** Scratch arrays for edge-based searches, created on the first one */
+    edgeSearch: SearchState | null;
+    costModels: Map<string, CostModel>;
+    /** Contraction hierarchy attached to the graph, and the cost model it was built for */
+    contraction: { hierarchy: ContractionHierarchy; model: CostModel } | null;
+}
+
+/**
+ * The turns allowed from one edge, as CSR positions of the edges turned onto
+ */
+interface TurnRule {
+    banned: Set<number>;
+    /** When set, the only edges that may be turned onto */
+    only: Set<number> | null;
+}
+
+/**
+ * Traffic by hour of the week, as multipliers of the edges' free-flow travel times
+ */
+interface TrafficSchedule {
+    /** Travel time multipliers for each hour of the week from Monday 00:00, one table per speed profile */
+    tables: Float64Array[];
+    /** Index in `tables` of each CSR edge's speed profile, or -1 for edges without one */
+    edgeTables: Int32Array;
+    /** Smallest multiplier in any table, which bounds how much quicker than free flow an edge can be */
+    minMultiplier: number;
+}
+
+/**
+ * A traffic schedule and the time a search departs at
+ */
+interface TrafficDeparture {
+    schedule: TrafficSchedule;
+    /** Seconds after Monday 00:00 */
+    departure: number;
+}
+
+/**
+ * Edge costs for one routing objective, in CSR order, with the factor that
+ * turns straight-line metres into an admissible A* heuristic for those costs
+ */
+interface CostModel {
+    weights: Float64Array;
+    /** Free-flow travel time of each edge in seconds, without the factor for roads to avoid */
+    travelTimes: Float64Array;
+    heuristicFactor: number;
+}
+
+/**
+ * A coordinate projected onto the nearest road segment
+ */
+interface EdgeSnap {
+    /** The projected point on the segment */
+    point: Coordinate;
+    /** CSR position of the snapped edge */
+    edge: number;
+    /** CSR position of the edge running the other way along the same road, or -1 for one-way roads */
+    reverseEdge: number;
+    /** How far along `edge` the projected point lies, from 0 (its source) to 1 (its target) */
+    fraction: number;
+}
+
+/**
+ * The partial edge between a snapped point and a graph node
+ */
+interface SnapLink {
+    node: number;
+    /** CSR position of the edge the link is part of */
+    edge: number;
+    /** Share of that edge covered by the link, from 0 to 1 */
+    share: number;
+    /** Cost of the link under the current cost model */
+    cost: number;
+    /** Seconds the link takes, in traffic for departure links priced in traffic */
+    elapsed: number;
+}
+
+/**
+ * A path between two snapped points: the graph nodes it passes and the
+ * (possibly partial) edges it drives, in order
+ */
+interface SnapPath {
+    nodes: number[];
+    pieces: PathPiece[];
+}
+
+/**
+ * The part of an edge between two fractions of its length
+ */
+interface PathPiece {
+    edge: number;
+    from: number;
+    to: number;
+}
+
+/**
+ * Per-search scratch arrays, reused between searches. Entries are nodes, or edges for
+ * edge-based searches. An entry is only valid when its stamp matches the current
+ * generation, so starting a new search does not need to reset every entry.
+ */
+class SearchState {
+    public readonly gScore: Float64Array;
+    public readonly previous: Int32Array;
+    /** CSR position of the edge used to reach each node */
+    public readonly previousEdge: Int32Array;
+    /**
+     * Seconds from the departure to each node, which traffic searches look up the hour by;
+     * unlike g scores, they do not include the factor for roads to avoid
+     */
+    public readonly elapsed: Float64Array;
+    public readonly heap = new MinHeap();
+    private readonly stamps: Uint32Array;
+    private readonly closedStamps: Uint32Array;
+    private generation = 0;
+
+    constructor(nodeCount: number) {
+        this.gScore = new Float64Array(nodeCount);
+        this.previous = new Int32Array(nodeCount);
+        this.previousEdge = new Int32Array(nodeCount);
+        this.elapsed = new Float64Array(nodeCount);
+        this.stamps = new Uint32Array(nodeCount);
+        this.closedStamps = new Uint32Array(nodeCount);
+    }
+
+    public reset(): void {
+        this.generation++;
+        this.heap.clear();
+    }
+
+    public getG(node: number): number {
+        return this.stamps[node] === this.generation ? this.gScore[node] : Infinity;
+    }
+
+    public setG(node: number, g: number, previous: number, previousEdge: number, elapsed: number): void {
+        this.stamps[node] = this.generation;
+        this.gScore[node] = g;
+        this.previous[node] = previous;
+        this.previousEdge[node] = previousEdge;
+        this.elapsed[node] = elapsed;
+    }
+
+    public isClosed(node: number): boolean {
+        return this.closedStamps[node] === this.generation;
+    }
+
+    public close(node: number): void {
+        this.closedStamps[node] = this.generation;
     }
-    
-    // Use haversine distance as heuristic
-    // Convert to time estimate: assume average speed of 50 km/h
-    const distanceKm = haversineDistance(node.lat, node.lon, endNode.lat, endNode.lon);
-    const averageSpeedKmh = 50;
-    const timeEstimate = (distanceKm / averageSpeedKmh) * 3600; // Convert to seconds
-    
-    return timeEstimate;
 }
 
+const routingIndexCache = new WeakMap<GraphData, RoutingIndex>();
+
 /**
- * A* algorithm to find shortest path
- * More efficient than Dijkstra's as it uses a heuristic to guide the search
+ * Searches call the cancellation check after settling this many entries
  */
-export function calculateRoute(
-    graph: GraphData,
-    startCoord: Coordinate,
-    endCoord: Coordinate
-): Coordinate[] {
-    const startNode = findNearestNode(graph, startCoord);
-    const endNode = findNearestNode(graph, endCoord);
+const CANCELLATION_CHECK_INTERVAL = 1024;
+
+let cancellationCheck: (() => void) | null = null;
+
+/**
+ * Set a function that searches call every so often while they run; it throws to abandon
+ * the calculation. Used by the route worker so a long route or isochrone can be cancelled.
+ */
+export function setCancellationCheck(check: (() => void) | null): void {
+    cancellationCheck = check;
+}
 
-    if (startNode === -1 || endNode === -1) {
-        throw new Error("Could not find nearest nodes for the given coordinates");
+/**
+ * Get the routing index for a graph, building it on first use
+ */
+function getRoutingIndex(graph: GraphData): RoutingIndex {
+    let index = routingIndexCache.get(graph);
+    if (!index) {
+        index = buildRoutingIndex(graph);
+        routingIndexCache.set(graph, index);
     }
+    return index;
+}
 
-    if (startNode === endNode) {
-        // Start and end are the same, return single point
-        const node = graph.nodes[startNode.toString()];
-        return [{ lat: node.lat, lon: node.lon }];
+function buildRoutingIndex(graph: GraphData): RoutingIndex {
+    const nodeIds: number[] = [];
+    const nodeIndexById = new Map<number, number>();
+
+    for (const key in graph.nodes) {
+        const node = graph.nodes[key];
+        nodeIndexById.set(node.id, nodeIds.length);
+        nodeIds.push(node.id);
     }
 
-    const adjacencyList = buildAdjacencyList(graph);
-    
-    // g(n) = actual cost from start to current node
-    const gScore = new Map<number, number>();
-    
-    // f(n) = g(n) + h(n) = estimated total cost from start to goal through current node
-    const fScore = new Map<number, number>();
-    
-    const previous = new Map<number, number | null>();
-    const openSet = new Set<number>(); // Nodes to be evaluated
-    const closedSet = new Set<number>(); // Nodes already evaluated
+    const nodeCount = nodeIds.length;
+    const lats = new Float64Array(nodeCount);
+    const lons = new Float64Array(nodeCount);
+    let minLat = Infinity, maxLat = -Infinity, minLon = Infinity, maxLon = -Infinity;
 
-    // Initialize scores
-    for (const nodeId in graph.nodes) {
-        const node = graph.nodes[nodeId];
-        gScore.set(node.id, Infinity);
-        fScore.set(node.id, Infinity);
-        previous.set(node.id, null);
+    for (let i = 0; i < nodeCount; i++) {
+        const node = graph.nodes[nodeIds[i].toString()];
+        lats[i] = node.lat;
+        lons[i] = node.lon;
+        minLat = Math.min(minLat, node.lat);
+        maxLat = Math.max(maxLat, node.lat);
+        minLon = Math.min(minLon, node.lon);
+        maxLon = Math.max(maxLon, node.lon);
     }
 
-    // Initialize start node
-    gScore.set(startNode, 0);
-    const hStart = heuristicDistance(graph, startNode, endNode);
-    fScore.set(startNode, hStart);
-    openSet.add(startNode);
+    // One-way roads also get a CSR edge running against them, for profiles that may use
+    // them both ways; it refers to the same graph edge
+    const usableEdges: Array<{ from: number; to: number; ref: number; reversed: boolean }> = [];
+    const directions = new Set<number>();
+    graph.edges.forEach((edge, edgeIndex) => {
+        const from = nodeIndexById.get(edge.from);
+        const to = nodeIndexById.get(edge.to);
+        if (from !== undefined && to !== undefined) {
+            usableEdges.push({ from, to, ref: edgeIndex, reversed: false });
+            directions.add(from * nodeCount + to);
+        }
+    });
+    const graphEdgeCount = usableEdges.length;
+    for (let i = 0; i < graphEdgeCount; i++) {
+        const { from, to, ref } = usableEdges[i];
+        if (!directions.has(to * nodeCount + from)) {
+            usableEdges.push({ from: to, to: from, ref, reversed: true });
+        }
+    }
 
-    // A* algorithm
-    while (openSet.size > 0) {
-        // Find node in openSet with lowest fScore
-        let currentNode = -1;
-        let minFScore = Infinity;
+    // Count outgoing edges per node, then fill the CSR arrays
+    const edgeOffsets = new Uint32Array(nodeCount + 1);
+    for (const edge of usableEdges) {
+        edgeOffsets[edge.from + 1]++;
+    }
+    for (let i = 0; i < nodeCount; i++) {
+        edgeOffsets[i + 1] += edgeOffsets[i];
+    }
+
+    const edgeTargets = new Uint32Array(usableEdges.length);
+    const edgeSources = new Uint32Array(usableEdges.length);
+    const edgeRefs = new Uint32Array(usableEdges.length);
+    const edgeReversed = new Uint8Array(usableEdges.length);
+    const fillPosition = edgeOffsets.slice(0, nodeCount);
+
+    for (const { from, to, ref, reversed } of usableEdges) {
+        const position = fillPosition[from]++;
+        edgeTargets[position] = to;
+        edgeSources[position] = from;
+        edgeRefs[position] = ref;
+        edgeReversed[position] = reversed ? 1 : 0;
+    }
+
+    const nodeGrid = new SpatialGrid(SpatialGrid.cellSizeFor(nodeCount, maxLat - minLat, maxLon - minLon));
+    for (let i = 0; i < nodeCount; i++) {
+        nodeGrid.insertPoint(i, lats[i], lons[i]);
+    }
+
+    const edgeClosed = new Uint8Array(usableEdges.length);
+    const csrPositionByRef = new Int32Array(graph.edges.length).fill(-1);
+    for (let edge = 0; edge < usableEdges.length; edge++) {
+        edgeClosed[edge] = graph.edges[edgeRefs[edge]].access === false ? 1 : 0;
+        if (!edgeReversed[edge]) {
+            csrPositionByRef[edgeRefs[edge]] = edge;
+        }
+    }
 
-        for (const nodeId of openSet) {
-            const f = fScore.get(nodeId) || Infinity;
-            if (f < minFScore) {
-                minFScore = f;
-                currentNode = nodeId;
+    const edgeShapes: Array<Float64Array | null> = new Array(usableEdges.length);
+    const edgeGrid = new SpatialGrid(SpatialGrid.cellSizeFor(usableEdges.length, maxLat - minLat, maxLon - minLon));
+    for (let edge = 0; edge < usableEdges.length; edge++) {
+        const from = edgeSources[edge];
+        const to = edgeTargets[edge];
+        const shape = edgeReversed[edge]
+            ? reverseShape(buildEdgeShape(graph.edges[edgeRefs[edge]], lats[to], lons[to], lats[from], lons[from]))
+            : buildEdgeShape(graph.edges[edgeRefs[edge]], lats[from], lons[from], lats[to], lons[to]);
+        edgeShapes[edge] = shape;
+        if (edgeReversed[edge]) {
+            // The one-way edge covers the same road, so snapping finds that one
+            continue;
+        }
+
+        let boxMinLat = Math.min(lats[from], lats[to]), boxMaxLat = Math.max(lats[from], lats[to]);
+        let boxMinLon = Math.min(lons[from], lons[to]), boxMaxLon = Math.max(lons[from], lons[to]);
+        if (shape) {
+            for (let i = 0; i < shape.length; i += 2) {
+                boxMinLat = Math.min(boxMinLat, shape[i]);
+                boxMaxLat = Math.max(boxMaxLat, shape[i]);
+                boxMinLon = Math.min(boxMinLon, shape[i + 1]);
+                boxMaxLon = Math.max(boxMaxLon, shape[i + 1]);
             }
         }
+        edgeGrid.insertBox(edge, boxMinLat, boxMinLon, boxMaxLat, boxMaxLon);
+    }
+
+    return {
+        nodeIds,
+        nodeIndexById,
+        lats,
+        lons,
+        edgeOffsets,
+        edgeTargets,
+        edgeSources,
+        edgeRefs,
+        nodeGrid,
+        edgeGrid,
+        edgeShapes,
+        edgeClosed,
+        edgeReversed,
+        turnRules: buildTurnRules(graph, nodeIndexById, edgeSources, edgeTargets, csrPositionByRef),
+        traffic: buildTrafficSchedule(graph, edgeRefs),
+        search: new SearchState(nodeCount),
+        edgeSearch: null,
+        costModels: new Map<string, CostModel>(),
+        contraction: null
+    };
+}
+
+/**
+ * Index a graph's turn restrictions by the edge turned from. Restrictions whose edges
+ * do not exist or do not meet at the via node are ignored; validateGraph reports them.
+ */
+function buildTurnRules(
+    graph: GraphData,
+    nodeIndexById: Map<number, number>,
+    edgeSources: Uint32Array,
+    edgeTargets: Uint32Array,
+    csrPositionByRef: Int32Array
+): Map<number, TurnRule> | null {
+    if (!graph.turn_restrictions || graph.turn_restrictions.length === 0) {
+        return null;
+    }
+
+    const rules = new Map<number, TurnRule>();
+    for (const restriction of graph.turn_restrictions) {
+        const via = nodeIndexById.get(restriction.via);
+        const from = restriction.from >= 0 && restriction.from < csrPositionByRef.length ? csrPositionByRef[restriction.from] : -1;
+        const to = restriction.to >= 0 && restriction.to < csrPositionByRef.length ? csrPositionByRef[restriction.to] : -1;
+        if (via === undefined || from === -1 || to === -1 || edgeTargets[from] !== via || edgeSources[to] !== via) {
+            continue;
+        }
+        let rule = rules.get(from);
+        if (!rule) {
+            rule = { banned: new Set<number>(), only: null };
+            rules.set(from, rule);
+        }
+        if (restriction.type === "only") {
+            rule.only = rule.only || new Set<number>();
+            rule.only.add(to);
+        } else {
+            rule.banned.add(to);
+        }
+    }
+    return rules.size > 0 ? rules : null;
+}
 
-        if (currentNode === -1 || minFScore === Infinity) {
-            break; // No path found
+/**
+ * Resolve the speed profiles of a graph's edges, by name or by road class. Profiles
+ * without 24 or 168 positive factors are ignored; validateGraph reports them.
+ */
+function buildTrafficSchedule(graph: GraphData, edgeRefs: Uint32Array): TrafficSchedule | null {
+    if (!graph.speed_profiles) {
+        return null;
+    }
+
+    const tables: Float64Array[] = [];
+    const tableByName = new Map<string, number>();
+    let minMultiplier = Infinity;
+    for (const name of Object.keys(graph.speed_profiles)) {
+        const factors = graph.speed_profiles[name];
+        if (!isSpeedProfile(factors)) {
+            continue;
         }
+        const table = new Float64Array(HOURS_PER_WEEK);
+        for (let hour = 0; hour < HOURS_PER_WEEK; hour++) {
+            table[hour] = 1 / factors[hour % factors.length];
+            minMultiplier = Math.min(minMultiplier, table[hour]);
+        }
+        tableByName.set(name, tables.length);
+        tables.push(table);
+    }
 
-        if (currentNode === endNode) {
-            // Reached destination, reconstruct path
-            const path: number[] = [];
-            let pathNode: number | null = endNode;
+    const edgeTables = new Int32Array(edgeRefs.length).fill(-1);
+    let profiledEdges = 0;
+    for (let edge = 0; edge < edgeRefs.length; edge++) {
+        const graphEdge = graph.edges[edgeRefs[edge]];
+        const name = graphEdge.speed_profile ??
+            (graphEdge.highway !== undefined ? graph.highway_speed_profiles?.[graphEdge.highway] : undefined);
+        const table = name !== undefined ? tableByName.get(name) : undefined;
+        if (table !== undefined) {
+            edgeTables[edge] = table;
+            profiledEdges++;
+        }
+    }
+    return profiledEdges > 0 ? { tables, edgeTables, minMultiplier } : null;
+}
 
-            while (pathNode !== null) {
-                path.unshift(pathNode);
-                pathNode = previous.get(pathNode) || null;
-            }
+/**
+ * Whether a speed profile has a positive factor for every hour of the day or of the week
+ */
+export function isSpeedProfile(factors: unknown): factors is number[] {
+    return Array.isArray(factors) &&
+        (factors.length === 24 || factors.length === HOURS_PER_WEEK) &&
+        factors.every(factor => typeof factor === "number" && isFinite(factor) && factor > 0);
+}
 
-            // Convert node IDs to coordinates
-            const routeCoords: Coordinate[] = [];
-            for (const nodeId of path) {
-                const node = graph.nodes[nodeId.toString()];
-                if (node) {
-                    routeCoords.push({ lat: node.lat, lon: node.lon });
-                }
-            }
+/**
+ * How many times its free-flow cost an edge costs when it is entered `elapsed` seconds after
+ * the departure and `freeFlowTime` seconds of it are driven; 1 without traffic. The vehicle
+ * moves at the speed of each hour it spends on the edge, so entering an edge later never
+ * means leaving it earlier, which keeps the time-dependent search exact.
+ */
+function trafficMultiplier(traffic: TrafficDeparture | null, edge: number, elapsed: number, freeFlowTime: number): number {
+    if (!traffic) {
+        return 1;
+    }
+    const table = traffic.schedule.edgeTables[edge];
+    if (table === -1) {
+        return 1;
+    }
+    const multipliers = traffic.schedule.tables[table];
+    let time = traffic.departure + elapsed;
+    const multiplierAt = (hour: number) => multipliers[((hour % HOURS_PER_WEEK) + HOURS_PER_WEEK) % HOURS_PER_WEEK];
+    if (!(freeFlowTime > 0) || !isFinite(freeFlowTime)) {
+        return multiplierAt(Math.floor(time / SECONDS_PER_HOUR));
+    }
 
-            return routeCoords;
+    let remaining = freeFlowTime;
+    let taken = 0;
+    for (;;) {
+        const hour = Math.floor(time / SECONDS_PER_HOUR);
+        const multiplier = multiplierAt(hour);
+        const hourLeft = (hour + 1) * SECONDS_PER_HOUR - time;
+        if (remaining * multiplier <= hourLeft) {
+            return (taken + remaining * multiplier) / freeFlowTime;
         }
+        remaining -= hourLeft / multiplier;
+        taken += hourLeft;
+        time += hourLeft;
+    }
+}
 
-        // Move current node from openSet to closedSet
-        openSet.delete(currentNode);
-        closedSet.add(currentNode);
+/**
+ * The traffic a route departing per RoutingOptions meets, or null when it has no departure
+ * time, the graph has no speed profiles or the vehicle is not slowed by traffic
+ */
+function resolveTraffic(index: RoutingIndex, options: RoutingOptions | undefined, profile: VehicleProfile): TrafficDeparture | null {
+    if (options?.departure === undefined || !index.traffic || !profile.followsTraffic) {
+        return null;
+    }
+    return { schedule: index.traffic, departure: options.departure };
+}
 
-        // Explore neighbors
-        const neighbors = adjacencyList.get(currentNode) || [];
-        for (const neighbor of neighbors) {
-            if (closedSet.has(neighbor.node)) {
-                continue; // Already evaluated
-            }
+/**
+ * Whether a route may turn from one CSR edge onto the next one at the node they share
+ */
+function turnAllowed(index: RoutingIndex, fromEdge: number, toEdge: number): boolean {
+    const rule = index.turnRules?.get(fromEdge);
+    if (!rule) {
+        return true;
+    }
+    return rule.only ? rule.only.has(toEdge) : !rule.banned.has(toEdge);
+}
 
-            // Calculate tentative gScore
-            const tentativeGScore = (gScore.get(currentNode) || 0) + neighbor.weight;
+/**
+ * Shape of an edge with a geometry, from its source node to its target node as
+ * lat/lon pairs, or null when the edge is straight. Geometry end points that repeat
+ * the node coordinates are dropped, so geometries with or without them give the same shape.
+ */
+function buildEdgeShape(edge: GraphEdge, fromLat: number, fromLon: number, toLat: number, toLon: number): Float64Array | null {
+    if (!edge.geometry) {
+        return null;
+    }
+    const points = typeof edge.geometry === "string" ? decodePolyline(edge.geometry) : edge.geometry;
+    const samePoint = (point: [number, number], lat: number, lon: number) =>
+        Math.abs(point[0] - lat) < 1e-6 && Math.abs(point[1] - lon) < 1e-6;
 
-            if (!openSet.has(neighbor.node)) {
-                openSet.add(neighbor.node); // Discover a new node
-            } else if (tentativeGScore >= (gScore.get(neighbor.node) || Infinity)) {
-                continue; // This is not a better path
+    let first = 0;
+    let last = points.length;
+    if (first < last && samePoint(points[first], fromLat, fromLon)) {
+        first++;
+    }
+    if (first < last && samePoint(points[last - 1], toLat, toLon)) {
+        last--;
+    }
+    if (first >= last) {
+        return null;
+    }
+
+    const shape = new Float64Array(2 * (last - first + 2));
+    shape[0] = fromLat;
+    shape[1] = fromLon;
+    for (let i = first; i < last; i++) {
+        shape[2 * (i - first + 1)] = points[i][0];
+        shape[2 * (i - first + 1) + 1] = points[i][1];
+    }
+    shape[shape.length - 2] = toLat;
+    shape[shape.length - 1] = toLon;
+    return shape;
+}
+
+/**
+ * The same shape, from its target node back to its source node
+ */
+function reverseShape(shape: Float64Array | null): Float64Array | null {
+    if (!shape) {
+        return null;
+    }
+    const reversed = new Float64Array(shape.length);
+    for (let i = 0; i < shape.length; i += 2) {
+        reversed[shape.length - 2 - i] = shape[i];
+        reversed[shape.length - 1 - i] = shape[i + 1];
+    }
+    return reversed;
+}
+
+/**
+ * Shape of a CSR edge as lat/lon pairs, straight edges included
+ */
+function edgeShape(index: RoutingIndex, edge: number): Float64Array {
+    const shape = index.edgeShapes[edge];
+    if (shape) {
+        return shape;
+    }
+    const from = index.edgeSources[edge];
+    const to = index.edgeTargets[edge];
+    return Float64Array.of(index.lats[from], index.lons[from], index.lats[to], index.lons[to]);
+}
+
+/**
+ * Length of a CSR edge's shape in kilometres
+ */
+function edgeShapeLength(index: RoutingIndex, edge: number): number {
+    const shape = edgeShape(index, edge);
+    let length = 0;
+    for (let i = 2; i < shape.length; i += 2) {
+        length += haversineDistance(shape[i - 2], shape[i - 1], shape[i], shape[i + 1]);
+    }
+    return length;
+}
+
+/**
+ * Points of a CSR edge's shape between two fractions of its length (0 is the source node, 1 the target)
+ */
+function edgeSlice(index: RoutingIndex, edge: number, fromFraction: number, toFraction: number): Coordinate[] {
+    const shape = edgeShape(index, edge);
+    const segmentLengths: number[] = [];
+    let total = 0;
+    for (let i = 2; i < shape.length; i += 2) {
+        const length = haversineDistance(shape[i - 2], shape[i - 1], shape[i], shape[i + 1]);
+        segmentLengths.push(length);
+        total += length;
+    }
+
+    const pointAt = (fraction: number): Coordinate => {
+        let remaining = fraction * total;
+        for (let segment = 0; segment < segmentLengths.length; segment++) {
+            if (remaining <= segmentLengths[segment] || segment === segmentLengths.length - 1) {
+                const t = segmentLengths[segment] > 0 ? Math.min(remaining / segmentLengths[segment], 1) : 0;
+                return {
+                    lat: shape[2 * segment] + t * (shape[2 * segment + 2] - shape[2 * segment]),
+                    lon: shape[2 * segment + 1] + t * (shape[2 * segment + 3] - shape[2 * segment + 1])
+                };
             }
+            remaining -= segmentLengths[segment];
+        }
+        return { lat: shape[0], lon: shape[1] };
+    };
 
-            // This path is the best so far, record it
-            previous.set(neighbor.node, currentNode);
-            gScore.set(neighbor.node, tentativeGScore);
-            
-            // Calculate fScore = gScore + heuristic
-            const h = heuristicDistance(graph, neighbor.node, endNode);
-            fScore.set(neighbor.node, tentativeGScore + h);
+    // Shape points strictly between the two fractions, plus the interpolated ends
+    const points: Coordinate[] = [pointAt(fromFraction)];
+    let along = 0;
+    for (let segment = 0; segment < segmentLengths.length - 1; segment++) {
+        along += segmentLengths[segment];
+        const fraction = total > 0 ? along / total : 0;
+        if (fraction > fromFraction && fraction < toFraction) {
+            points.push({ lat: shape[2 * segment + 2], lon: shape[2 * segment + 3] });
         }
     }
+    points.push(pointAt(toFraction));
+    return points;
+}
+
+/**
+ * Travel time of an edge in seconds. Edges without a positive travel_time
+ * are timed from their maxspeed, or from DEFAULT_SPEED_KMH.
+ */
+function edgeTravelTime(edge: GraphEdge): number {
+    if (edge.travel_time > 0) {
+        return edge.travel_time;
+    }
+    const speedKmh = edge.maxspeed && edge.maxspeed > 0 ? edge.maxspeed : DEFAULT_SPEED_KMH;
+    return edge.length / (speedKmh / 3.6);
+}
+
+/**
+ * Travel time of an edge in seconds for a vehicle profile, or Infinity when the profile
+ * may not use the road
+ */
+function profileTravelTime(edge: GraphEdge, profile: VehicleProfile): number {
+    const carTime = edgeTravelTime(edge);
+    const roadSpeed = carTime > 0 ? edge.length / carTime * 3.6 : DEFAULT_SPEED_KMH;
+    const speed = profileSpeed(profile, edge.highway, roadSpeed);
+    if (speed <= 0) {
+        return Infinity;
+    }
+    return speed === roadSpeed ? carTime : Math.max(edge.length, 0) / (speed / 3.6);
+}
+
+/**
+ * The vehicle profile of RoutingOptions, with its dimensions when it checks road limits
+ */
+function resolveProfile(options?: RoutingOptions): { profile: VehicleProfile; dimensions: VehicleDimensions | null } {
+    const profile = VEHICLE_PROFILES[options?.vehicle || "car"] || VEHICLE_PROFILES.car;
+    return { profile, dimensions: profile.checksDimensions ? options?.vehicleDimensions || DEFAULT_TRUCK_DIMENSIONS : null };
+}
+
+/**
+ * Whether a vehicle fits under and may drive over a road
+ */
+function fitsDimensions(edge: GraphEdge, dimensions: VehicleDimensions | null): boolean {
+    if (!dimensions) {
+        return true;
+    }
+    return !(edge.maxheight !== undefined && edge.maxheight !== null && edge.maxheight < dimensions.height) &&
+        !(edge.maxweight !== undefined && edge.maxweight !== null && edge.maxweight < dimensions.weight);
+}
+
+function resolveObjective(options?: RoutingOptions): { objective: RoutingObjective; timeWeight: number } {
+    const objective = options?.objective || "fastest";
+    const timeWeight = Math.min(Math.max(options?.timeWeight ?? 0.5, 0), 1);
+    return { objective, timeWeight: objective === "weighted" ? timeWeight : 0 };
+}
+
+/**
+ * Which roads RoutingOptions asks to avoid
+ */
+function resolveAvoidance(options?: RoutingOptions): { motorways: boolean; tolls: boolean; ferries: boolean } {
+    return { motorways: !!options?.avoidMotorways, tolls: !!options?.avoidTolls, ferries: !!options?.avoidFerries };
+}
 
-    // No path found
-    throw new Error("No path found between the given coordinates");
+function isAvoided(edge: GraphEdge, avoid: { motorways: boolean; tolls: boolean; ferries: boolean }): boolean {
+    return (avoid.motorways && edge.highway !== undefined && MOTORWAY_CLASSES.has(edge.highway)) ||
+        (avoid.tolls && edge.toll === true) ||
+        (avoid.ferries && edge.ferry === true);
 }
 
+function edgeCost(edge: GraphEdge, objective: RoutingObjective, timeWeight: number, profile: VehicleProfile): number {
+    const travelTime = profileTravelTime(edge, profile);
+    if (!isFinite(travelTime)) {
+        return Infinity; // Not a road for this profile, whatever the objective
+    }
+    switch (objective) {
+        case "shortest":
+            return Math.max(edge.length, 0);
+        case "weighted":
+            return timeWeight * travelTime +
+                (1 - timeWeight) * Math.max(edge.length, 0) / ((profile.defaultSpeed ?? WEIGHTED_REFERENCE_SPEED_KMH) / 3.6);
+        case "fastest":
+        default:
+            return travelTime;
+    }
+}
+
+/**
+ * Get the edge costs for an objective and vehicle profile, computing them on first use.
+ * Roads the profile may not use and roads too low or weak for the vehicle cost Infinity, as do
+ * roads closed to cars and the wrong way along one-way roads for profiles that follow car
+ * restrictions. Roads to avoid are multiplied by `avoidedRoadFactor` (Infinity leaves them out altogether).
+ *
+ * The heuristic factor is the smallest cost per straight-line metre over all edges.
+ * By the triangle inequality, any path to the goal then costs at least
+ * factor * (straight-line distance to the goal), so the heuristic is admissible
+ * and consistent for every objective. For "fastest" the factor is the inverse of
+ * the highest effective speed in the graph, so fast motorways are accounted for.
+ */
+function getCostModel(
+    graph: GraphData,
+    index: RoutingIndex,
+    options?: RoutingOptions,
+    avoidedRoadFactor: number = AVOIDED_ROAD_FACTOR
+): CostModel {
+    const { objective, timeWeight } = resolveObjective(options);
+    const { profile, dimensions } = resolveProfile(options);
+    const avoid = resolveAvoidance(options);
+    const avoiding = avoid.motorways || avoid.tolls || avoid.ferries;
+    const key = `${profile.id}:${objective}:${timeWeight}` +
+        (dimensions ? `:${dimensions.height}m${dimensions.weight}t` : "") +
+        (avoiding ? `:avoid${avoid.motorways ? "M" : ""}${avoid.tolls ? "T" : ""}${avoid.ferries ? "F" : ""}x${avoidedRoadFactor}` : "");
+    let model = index.costModels.get(key);
+    if (model) {
+        return model;
+    }
+
+    const weights = new Float64Array(index.edgeTargets.length);
+    const travelTimes = new Float64Array(index.edgeTargets.length);
+    let heuristicFactor = Infinity;
+
+    for (let from = 0; from < index.nodeIds.length; from++) {
+        for (let edge = index.edgeOffsets[from]; edge < index.edgeOffsets[from + 1]; edge++) {
+            const to = index.edgeTargets[edge];
+            const graphEdge = graph.edges[index.edgeRefs[edge]];
+            const restricted = profile.followsCarRestrictions && (index.edgeClosed[edge] || index.edgeReversed[edge]);
+            let cost = restricted || !fitsDimensions(graphEdge, dimensions)
+                ? Infinity
+                : edgeCost(graphEdge, objective, timeWeight, profile);
+            if (avoiding && isAvoided(graphEdge, avoid)) {
+                cost = isFinite(avoidedRoadFactor) ? cost * avoidedRoadFactor : Infinity;
+            }
+            weights[edge] = cost;
+            travelTimes[edge] = profileTravelTime(graphEdge, profile);
+
+            // Shape length is at least the straight-line distance, and also bounds
+            // the straight-line distance to any point part-way along the road
+            const shapeMetres = index.edgeShapes[edge]
+                ? edgeShapeLength(index, edge) * 1000
+                : haversineDistance(index.lats[from], index.lons[from], index.lats[to], index.lons[to]) * 1000;
+            if (shapeMetres > 0) {
+                heuristicFactor = Math.min(heuristicFactor, cost / shapeMetres);
+            }
+        }
+    }
+
+    model = { weights, travelTimes, heuristicFactor: isFinite(heuristicFactor) ? heuristicFactor : 0 };
+    index.costModels.set(key, model);
+    return model;
+}
+
+/**
+ * Build the routing index of a graph ahead of the first route, e.g. right after loading
+ */
+export function prepareGraph(graph: GraphData, options?: RoutingOptions): void {
+    getCostModel(graph, getRoutingIndex(graph), options);
+}
+
+/**
+ * The graph's CSR arrays with the costs of the default routing options (fastest, by car,
+ * avoiding nothing), which is what contraction hierarchies are built for
+ */
+function hierarchyGraph(graph: GraphData, index: RoutingIndex): WeightedGraph {
+    if (index.turnRules) {
+        throw new Error("Contraction hierarchies do not support graphs with turn restrictions");
+    }
+    const { edgeOffsets, edgeTargets } = index;
+    return { edgeOffsets, edgeTargets, weights: getCostModel(graph, index).weights };
+}
+
+/**
+ * Preprocess a graph into a contraction hierarchy for faster routes with the default routing options
+ */
+export function contractGraph(graph: GraphData): ContractionHierarchy {
+    return buildContractionHierarchy(hierarchyGraph(graph, getRoutingIndex(graph)));
+}
+
+/**
+ * Use a contraction hierarchy for the graph's routes with the default routing options.
+ * Routes with other options, or in traffic, still use A*. Throws when the hierarchy was
+ * built for a different graph or different edge costs.
+ */
+export function attachContractionHierarchy(graph: GraphData, hierarchy: ContractionHierarchy): void {
+    const index = getRoutingIndex(graph);
+    const weighted = hierarchyGraph(graph, index);
+    if (hierarchy.ranks.length !== index.nodeIds.length || hierarchy.checksum !== graphChecksum(weighted)) {
+        throw new Error("Contraction hierarchy was built for a different graph");
+    }
+    index.contraction = { hierarchy, model: getCostModel(graph, index) };
+}
+
+/**
+ * Find the index of the node nearest to a coordinate, or -1 for an empty graph
+ */
+function findNearestNodeIndex(index: RoutingIndex, point: Coordinate): number {
+    const nearest = index.nodeGrid.findNearest(
+        point.lat,
+        point.lon,
+        node => haversineDistance(point.lat, point.lon, index.lats[node], index.lons[node])
+    );
+    return nearest ? nearest.id : -1;
+}
+
+/**
+ * Find the nearest node in the graph to a given coordinate
+ */
+export function findNearestNode(graph: GraphData, point: Coordinate): number {
+    const index = getRoutingIndex(graph);
+    const nearest = findNearestNodeIndex(index, point);
+    return nearest === -1 ? -1 : index.nodeIds[nearest];
+}
+
+/**
+ * Project a coordinate onto the shape of a CSR edge, in a local equirectangular
+ * projection around the coordinate. `fraction` is the share of the shape's length
+ * before the projected point.
+ */
+function projectOntoEdge(index: RoutingIndex, point: Coordinate, edge: number): { fraction: number; point: Coordinate; distance: number } {
+    const shape = edgeShape(index, edge);
+    const cosLat = Math.cos(toRadians(point.lat));
+    let best = { segment: 0, t: 0, distance: Infinity, point: { lat: shape[0], lon: shape[1] } };
+
+    for (let i = 2; i < shape.length; i += 2) {
+        const ax = (shape[i - 1] - point.lon) * cosLat;
+        const ay = shape[i - 2] - point.lat;
+        const dx = (shape[i + 1] - shape[i - 1]) * cosLat;
+        const dy = shape[i] - shape[i - 2];
+        const lengthSquared = dx * dx + dy * dy;
+        const t = lengthSquared > 0 ? Math.min(Math.max(-(ax * dx + ay * dy) / lengthSquared, 0), 1) : 0;
+        const projected = {
+            lat: shape[i - 2] + t * (shape[i] - shape[i - 2]),
+            lon: shape[i - 1] + t * (shape[i + 1] - shape[i - 1])
+        };
+        const distance = haversineDistance(point.lat, point.lon, projected.lat, projected.lon);
+        if (distance < best.distance) {
+            best = { segment: i / 2 - 1, t, distance, point: projected };
+        }
+    }
+
+    let before = 0;
+    let total = 0;
+    for (let i = 2; i < shape.length; i += 2) {
+        const length = haversineDistance(shape[i - 2], shape[i - 1], shape[i], shape[i + 1]);
+        if (i / 2 - 1 < best.segment) {
+            before += length;
+        } else if (i / 2 - 1 === best.segment) {
+            before += best.t * length;
+        }
+        total += length;
+    }
+
+    return { fraction: total > 0 ? before / total : 0, point: best.point, distance: best.distance };
+}
+
+/**
+ * Snap a coordinate onto the nearest road segment that can be driven under a cost model.
+ * Both directions of a two-way road are the same segment, so the snap is expressed on the
+ * lower CSR position of the pair, which keeps it identical for every leg that shares the coordinate.
+ * A reverse edge the model may not drive, such as the wrong way along a one-way road, is left out.
+ */
+function snapToRoad(index: RoutingIndex, model: CostModel, point: Coordinate, options?: RoutingOptions): EdgeSnap {
+    const maxSnapDistance = options?.maxSnapDistance || 0;
+    const nearest = index.edgeGrid.findNearest(
+        point.lat,
+        point.lon,
+        edge => isFinite(model.weights[edge]) ? projectOntoEdge(index, point, edge).distance : Infinity,
+        maxSnapDistance > 0 ? maxSnapDistance / 1000 : Infinity
+    );
+    if (maxSnapDistance > 0 && !nearest) {
+        throw new Error(
+            `Point too far from road network: ${point.lat.toFixed(5)}, ${point.lon.toFixed(5)} is more than ` +
+            `${formatDistance(maxSnapDistance)} from the nearest road`
+        );
+    }
+    if (!nearest || !isFinite(nearest.distance)) {
+        throw new Error("Could not find a road near the given coordinates");
+    }
+
+    let edge = nearest.id;
+    let reverseEdge = findReverseEdge(index, edge);
+    if (reverseEdge !== -1 && !isFinite(model.weights[reverseEdge])) {
+        reverseEdge = -1;
+    }
+    if (reverseEdge !== -1 && reverseEdge < edge) {
+        [edge, reverseEdge] = [reverseEdge, edge];
+    }
+    const projected = projectOntoEdge(index, point, edge);
+    return { point: projected.point, edge, reverseEdge, fraction: projected.fraction };
+}
+
+/**
+ * Find the shortest edge running from the target of an edge back to its source, or -1
+ */
+function findReverseEdge(index: RoutingIndex, edge: number): number {
+    const from = index.edgeSources[edge];
+    const to = index.edgeTargets[edge];
+    let reverse = -1;
+    for (let candidate = index.edgeOffsets[to]; candidate < index.edgeOffsets[to + 1]; candidate++) {
+        if (candidate !== edge && index.edgeTargets[candidate] === from &&
+            (reverse === -1 || index.edgeRefs[candidate] < index.edgeRefs[reverse])) {
+            reverse = candidate;
+        }
+    }
+    return reverse;
+}
+
+/**
+ * The link covering `share` of an edge, priced under a cost model
+ */
+function snapLink(model: CostModel, node: number, edge: number, share: number): SnapLink {
+    return { node, edge, share, cost: share * model.weights[edge], elapsed: share * model.travelTimes[edge] };
+}
+
+/**
+ * Ways to leave a snapped point: along the snapped edge to its target,
+ * and back along the reverse edge to its source
+ */
+function departureLinks(index: RoutingIndex, model: CostModel, snap: EdgeSnap): SnapLink[] {
+    const links = [snapLink(model, index.edgeTargets[snap.edge], snap.edge, 1 - snap.fraction)];
+    if (snap.reverseEdge !== -1) {
+        links.push(snapLink(model, index.edgeTargets[snap.reverseEdge], snap.reverseEdge, snap.fraction));
+    }
+    return links;
+}
+
+/**
+ * Ways to reach a snapped point: from the snapped edge's source, and from its target along the reverse edge
+ */
+function arrivalLinks(index: RoutingIndex, model: CostModel, snap: EdgeSnap): SnapLink[] {
+    const links = [snapLink(model, index.edgeSources[snap.edge], snap.edge, snap.fraction)];
+    if (snap.reverseEdge !== -1) {
+        links.push(snapLink(model, index.edgeSources[snap.reverseEdge], snap.reverseEdge, 1 - snap.fraction));
+    }
+    return links;
+}
+
+/**
+ * The part of a single road between two points snapped onto it, when it can be
+ * driven in that direction, or null
+ */
+function directLink(model: CostModel, from: EdgeSnap, to: EdgeSnap): { piece: PathPiece; cost: number } | null {
+    if (from.edge !== to.edge) {
+        return null;
+    }
+    let link: { piece: PathPiece; cost: number } | null = null;
+    if (to.fraction >= from.fraction) {
+        link = {
+            piece: { edge: from.edge, from: from.fraction, to: to.fraction },
+            cost: (to.fraction - from.fraction) * model.weights[from.edge]
+        };
+    } else if (from.reverseEdge !== -1) {
+        // The reverse edge runs the other way, so fractions along it are mirrored
+        link = {
+            piece: { edge: from.reverseEdge, from: 1 - from.fraction, to: 1 - to.fraction },
+            cost: (from.fraction - to.fraction) * model.weights[from.reverseEdge]
+        };
+    }
+    // An edge the model may not drive gives no link, even for a point just behind the other
+    return link && isFinite(link.cost) ? link : null;
+}
+
+/**
+ * Calculate haversine distance between two points in kilometers
+ */
+function haversineDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
+    const R = 6371; // Earth's radius in km
+    const dLat = toRadians(lat2 - lat1);
+    const dLon = toRadians(lon2 - lon1);
+    
+    const a = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+              Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) *
+              Math.sin(dLon / 2) * Math.sin(dLon / 2);
+    
+    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+    return R * c;
+}
+
+function toRadians(degrees: number): number {
+    return degrees * (Math.PI / 180);
+}
+
+/**
+ * Calculate heuristic cost (Haversine) from a node to the goal
+ * This is used in A* algorithm to guide the search
+ */
+function heuristicDistance(index: RoutingIndex, model: CostModel, node: number, goal: Coordinate): number {
+    const distanceKm = haversineDistance(index.lats[node], index.lons[node], goal.lat, goal.lon);
+    return distanceKm * 1000 * model.heuristicFactor;
+}
+
+/**
+ * The A* heuristic towards a snapped point, scaled down by the largest speed-up traffic
+ * allows so it stays admissible
+ */
+function trafficHeuristic(index: RoutingIndex, model: CostModel, to: EdgeSnap, traffic: TrafficDeparture | null): (node: number) => number {
+    const scale = traffic ? Math.min(traffic.schedule.minMultiplier, 1) : 1;
+    return node => heuristicDistance(index, model, node, to.point) * scale;
+}
+
+/**
+ * trafficMultiplier for a piece of road driven at the departure time
+ */
+function directTrafficMultiplier(model: CostModel, piece: PathPiece, traffic: TrafficDeparture | null): number {
+    return trafficMultiplier(traffic, piece.edge, 0, (piece.to - piece.from) * model.travelTimes[piece.edge]);
+}
+
+/**
+ * departureLinks priced for the traffic at the departure time
+ */
+function departureLinksInTraffic(index: RoutingIndex, model: CostModel, snap: EdgeSnap, traffic: TrafficDeparture | null): SnapLink[] {
+    const links = departureLinks(index, model, snap);
+    if (!traffic) {
+        return links;
+    }
+    return links.map(link => {
+        const multiplier = trafficMultiplier(traffic, link.edge, 0, link.elapsed);
+        return { ...link, cost: link.cost * multiplier, elapsed: link.elapsed * multiplier };
+    });
+}
+
+/**
+ * Best-first search over the CSR graph, shared by A* (with a heuristic) and Dijkstra
+ * (heuristic of zero). The search starts from the nodes of the given links, at the cost
+ * of each link; a start node's previous node is -1 and its previous edge is its link's edge.
+ * Nodes are settled in order of g(n) + h(n) until `isGoal` accepts one, which is returned;
+ * -1 means the search ran out of nodes. With traffic, each edge costs what it does at the
+ * time it is entered, which is tracked apart from g(n) in search.elapsed.
+ * Results are read from index.search until the next search starts.
+ */
+function runSearch(
+    index: RoutingIndex,
+    model: CostModel,
+    starts: SnapLink[],
+    isGoal: (node: number) => boolean,
+    heuristic: (node: number) => number,
+    traffic: TrafficDeparture | null = null
+): number {
+    const search = index.search;
+    const openSet = search.heap; // Nodes to be evaluated, keyed by f(n) = g(n) + h(n)
+    search.reset();
+
+    // Initialize start nodes
+    for (const start of starts) {
+        if (start.cost < search.getG(start.node)) {
+            search.setG(start.node, start.cost, -1, start.edge, start.elapsed);
+            openSet.push(start.node, start.cost + heuristic(start.node));
+        }
+    }
+
+    let settled = 0;
+    while (openSet.size > 0) {
+        const currentNode = openSet.pop();
+
+        if (search.isClosed(currentNode)) {
+            continue; // Stale heap entry for a node already evaluated
+        }
+
+        search.close(currentNode);
+        if (cancellationCheck && ++settled % CANCELLATION_CHECK_INTERVAL === 0) {
+            cancellationCheck();
+        }
+        if (isGoal(currentNode)) {
+            return currentNode;
+        }
+
+        const currentG = search.getG(currentNode);
+        const currentElapsed = search.elapsed[currentNode];
+
+        // Explore neighbors
+        for (let edge = index.edgeOffsets[currentNode]; edge < index.edgeOffsets[currentNode + 1]; edge++) {
+            const neighbor = index.edgeTargets[edge];
+            if (search.isClosed(neighbor)) {
+                continue; // Already evaluated
+            }
+
+            const multiplier = trafficMultiplier(traffic, edge, currentElapsed, model.travelTimes[edge]);
+            const tentativeGScore = currentG + model.weights[edge] * multiplier;
+            if (tentativeGScore >= search.getG(neighbor)) {
+                continue; // This is not a better path
+            }
+
+            // This path is the best so far, record it
+            search.setG(neighbor, tentativeGScore, currentNode, edge, currentElapsed + model.travelTimes[edge] * multiplier);
+            openSet.push(neighbor, tentativeGScore + heuristic(neighbor));
+        }
+    }
+
+    return -1;
+}
+
+/**
+ * Best-first search over edges instead of nodes, used for graphs with turn restrictions:
+ * each entry is the edge a node was reached by, so every turn onto a next edge can be
+ * checked. The g score of an edge is the cost of arriving at its target node. The search
+ * starts from the edges of the given links and settles edges in order of g + h(target)
+ * until `isGoal` accepts one, which is returned; -1 means the search ran out of edges.
+ * An edge's previous entry is the edge before it, or -1 for a start edge.
+ * Results are read from index.edgeSearch until the next search starts.
+ */
+function runEdgeSearch(
+    index: RoutingIndex,
+    model: CostModel,
+    starts: SnapLink[],
+    isGoal: (edge: number) => boolean,
+    heuristic: (node: number) => number,
+    traffic: TrafficDeparture | null = null
+): number {
+    if (!index.edgeSearch) {
+        index.edgeSearch = new SearchState(index.edgeTargets.length);
+    }
+    const search = index.edgeSearch;
+    const openSet = search.heap;
+    search.reset();
+
+    for (const start of starts) {
+        if (start.cost < search.getG(start.edge)) {
+            search.setG(start.edge, start.cost, -1, start.edge, start.elapsed);
+            openSet.push(start.edge, start.cost + heuristic(start.node));
+        }
+    }
+
+    let settled = 0;
+    while (openSet.size > 0) {
+        const currentEdge = openSet.pop();
+        if (search.isClosed(currentEdge)) {
+            continue;
+        }
+
+        search.close(currentEdge);
+        if (cancellationCheck && ++settled % CANCELLATION_CHECK_INTERVAL === 0) {
+            cancellationCheck();
+        }
+        if (isGoal(currentEdge)) {
+            return currentEdge;
+        }
+
+        const currentG = search.getG(currentEdge);
+        const currentElapsed = search.elapsed[currentEdge];
+        const node = index.edgeTargets[currentEdge];
+        for (let edge = index.edgeOffsets[node]; edge < index.edgeOffsets[node + 1]; edge++) {
+            if (search.isClosed(edge) || !turnAllowed(index, currentEdge, edge)) {
+                continue;
+            }
+            const multiplier = trafficMultiplier(traffic, edge, currentElapsed, model.travelTimes[edge]);
+            const tentativeGScore = currentG + model.weights[edge] * multiplier;
+            if (tentativeGScore >= search.getG(edge)) {
+                continue;
+            }
+            search.setG(edge, tentativeGScore, currentEdge, edge, currentElapsed + model.travelTimes[edge] * multiplier);
+            openSet.push(edge, tentativeGScore + heuristic(index.edgeTargets[edge]));
+        }
+    }
+
+    return -1;
+}
+
+/**
+ * A* search between two snapped points. Both points sit part-way along a road, so the
+ * search starts from either end of the start road and finishes once no open node can
+ * beat the cheapest arrival at the end point found so far. Graphs with turn restrictions
+ * are searched edge by edge, and an attached contraction hierarchy answers searches for
+ * the model it was built for. With traffic, the model's costs must be travel times (with
+ * roads to avoid multiplied).
+ */
+function findSnapPath(index: RoutingIndex, model: CostModel, from: EdgeSnap, to: EdgeSnap, traffic: TrafficDeparture | null = null): SnapPath | null {
+    if (index.turnRules) {
+        return findSnapPathWithTurns(index, model, from, to, traffic);
+    }
+    if (!traffic && index.contraction?.model === model) {
+        return findSnapPathContracted(index, model, index.contraction.hierarchy, from, to);
+    }
+    const search = index.search;
+    const direct = directLink(model, from, to);
+    const arrivals = arrivalLinks(index, model, to);
+    const heuristic = trafficHeuristic(index, model, to, traffic);
+
+    let bestCost = direct ? direct.cost * directTrafficMultiplier(model, direct.piece, traffic) : Infinity;
+    let bestArrival: SnapLink | null = null;
+
+    runSearch(index, model, departureLinksInTraffic(index, model, from, traffic), node => {
+        const g = search.getG(node);
+        if (g + heuristic(node) >= bestCost) {
+            return true; // Nothing left in the open set can arrive more cheaply
+        }
+        for (const arrival of arrivals) {
+            if (arrival.node !== node) {
+                continue;
+            }
+            const cost = g + arrival.cost * trafficMultiplier(traffic, arrival.edge, search.elapsed[node], arrival.elapsed);
+            if (cost < bestCost) {
+                bestCost = cost;
+                bestArrival = arrival;
+            }
+        }
+        return false;
+    }, heuristic, traffic);
+
+    if (!bestArrival) {
+        return direct ? { nodes: [], pieces: [direct.piece] } : null;
+    }
+
+    // Reconstruct the path back to the start node the search began from
+    const arrival: SnapLink = bestArrival;
+    const nodes: number[] = [];
+    const pieces: PathPiece[] = [{ edge: arrival.edge, from: 0, to: arrival.share }];
+    let pathNode = arrival.node;
+    while (search.previous[pathNode] !== -1) {
+        nodes.push(pathNode);
+        pieces.push({ edge: search.previousEdge[pathNode], from: 0, to: 1 });
+        pathNode = search.previous[pathNode];
+    }
+    nodes.push(pathNode);
+    const departureEdge = search.previousEdge[pathNode];
+    const departureShare = departureEdge === from.edge ? 1 - from.fraction : from.fraction;
+    pieces.push({ edge: departureEdge, from: 1 - departureShare, to: 1 });
+
+    return { nodes: nodes.reverse(), pieces: pieces.reverse() };
+}
+
+/**
+ * findSnapPath with a contraction hierarchy built for the model: a bidirectional search
+ * between the ends of the start and end roads, unpacked back to the edges it drives
+ */
+function findSnapPathContracted(index: RoutingIndex, model: CostModel, hierarchy: ContractionHierarchy, from: EdgeSnap, to: EdgeSnap): SnapPath | null {
+    const direct = directLink(model, from, to);
+    const departures = departureLinks(index, model, from);
+    const arrivals = arrivalLinks(index, model, to);
+    const found = queryContractionHierarchy(hierarchy, departures, arrivals);
+
+    if (!found || (direct && direct.cost <= found.cost)) {
+        return direct ? { nodes: [], pieces: [direct.piece] } : null;
+    }
+
+    const departure = departures[found.source];
+    const arrival = arrivals[found.target];
+    return {
+        nodes: [departure.node, ...found.edges.map(edge => index.edgeTargets[edge])],
+        pieces: [
+            { edge: departure.edge, from: 1 - departure.share, to: 1 },
+            ...found.edges.map(edge => ({ edge, from: 0, to: 1 })),
+            { edge: arrival.edge, from: 0, to: arrival.share }
+        ]
+    };
+}
+
+/**
+ * findSnapPath for graphs with turn restrictions, as an edge-based A* search.
+ * The turn from the last full edge onto the end road is checked too.
+ */
+function findSnapPathWithTurns(index: RoutingIndex, model: CostModel, from: EdgeSnap, to: EdgeSnap, traffic: TrafficDeparture | null): SnapPath | null {
+    const direct = directLink(model, from, to);
+    const arrivals = arrivalLinks(index, model, to);
+    const heuristic = trafficHeuristic(index, model, to, traffic);
+
+    let bestCost = direct ? direct.cost * directTrafficMultiplier(model, direct.piece, traffic) : Infinity;
+    let bestArrival: { edge: number; link: SnapLink } | null = null;
+
+    runEdgeSearch(index, model, departureLinksInTraffic(index, model, from, traffic), edge => {
+        const g = index.edgeSearch!.getG(edge);
+        const node = index.edgeTargets[edge];
+        if (g + heuristic(node) >= bestCost) {
+            return true; // Nothing left in the open set can arrive more cheaply
+        }
+        for (const arrival of arrivals) {
+            if (arrival.node !== node) {
+                continue;
+            }
+            const cost = g + arrival.cost * trafficMultiplier(traffic, arrival.edge, index.edgeSearch!.elapsed[edge], arrival.elapsed);
+            if (cost < bestCost && turnAllowed(index, edge, arrival.edge)) {
+                bestCost = cost;
+                bestArrival = { edge, link: arrival };
+            }
+        }
+        return false;
+    }, heuristic, traffic);
+
+    if (!bestArrival) {
+        return direct ? { nodes: [], pieces: [direct.piece] } : null;
+    }
+
+    // Reconstruct the path back to the departure edge the search began from
+    const search = index.edgeSearch!;
+    const { edge: lastEdge, link: arrival }: { edge: number; link: SnapLink } = bestArrival;
+    const nodes: number[] = [];
+    const pieces: PathPiece[] = [{ edge: arrival.edge, from: 0, to: arrival.share }];
+    let pathEdge = lastEdge;
+    while (search.previous[pathEdge] !== -1) {
+        nodes.push(index.edgeTargets[pathEdge]);
+        pieces.push({ edge: pathEdge, from: 0, to: 1 });
+        pathEdge = search.previous[pathEdge];
+    }
+    nodes.push(index.edgeTargets[pathEdge]);
+    const departureShare = pathEdge === from.edge ? 1 - from.fraction : from.fraction;
+    pieces.push({ edge: pathEdge, from: 1 - departureShare, to: 1 });
+
+    return { nodes: nodes.reverse(), pieces: pieces.reverse() };
+}
+
+/**
+ * A* algorithm to find the optimal path for the chosen objective (fastest by default)
+ * More efficient than Dijkstra's as it uses a heuristic to guide the search.
+ * The open set is a binary heap and the graph index is cached per GraphData,
+ * so repeated calls on the same graph only pay for the search itself.
+ * Start and end are snapped onto the nearest road segment, so the route begins
+ * and ends part-way along a road rather than at the nearest junction.
+ */
+export function calculateRoute(
+    graph: GraphData,
+    startCoord: Coordinate,
+    endCoord: Coordinate,
+    options?: RoutingOptions
+): RouteResult {
+    const index = getRoutingIndex(graph);
+    const model = getCostModel(graph, index, options);
+    const startSnap = snapToRoad(index, model, startCoord, options);
+    const endSnap = snapToRoad(index, model, endCoord, options);
+
+    const { profile } = resolveProfile(options);
+    const traffic = resolveTraffic(index, options, profile);
+    const path = findSnapPath(index, model, startSnap, endSnap, searchTraffic(options, traffic));
+    if (!path) {
+        throw new Error("No path found between the given coordinates");
+    }
+
+    return buildRouteResult(graph, index, path, startCoord, endCoord, profile, traffic, options?.departure);
+}
+
+/**
+ * Traffic to search with: only the fastest objective's costs are travel times that traffic
+ * multiplies. Routes for other objectives are still timed in traffic once found.
+ */
+function searchTraffic(options: RoutingOptions | undefined, traffic: TrafficDeparture | null): TrafficDeparture | null {
+    return resolveObjective(options).objective === "fastest" ? traffic : null;
+}
+
+/**
+ * Cost added to an edge for each route found through it while searching for alternatives,
+ * as a share of the edge's own cost
+ */
+const ALTERNATIVE_PENALTY = 0.5;
+
+/**
+ * Alternatives sharing more than this share of their cost with routes already found are dropped as too similar
+ */
+const MAX_ALTERNATIVE_OVERLAP = 0.7;
+
+/**
+ * Searches made per requested alternative before giving up
+ */
+const ALTERNATIVE_SEARCHES = 3;
+
+/**
+ * Cost of a path under a cost model
+ */
+function pathCost(model: CostModel, path: SnapPath): number {
+    return path.pieces.reduce((total, piece) => total + (piece.to - piece.from) * model.weights[piece.edge], 0);
+}
+
+/**
+ * The best route and up to `alternatives.count` alternatives, found with the penalty method:
+ * after each search the edges of the path found become more expensive, so the next search
+ * prefers other roads. Candidates costing more than `maxDetour` times the best route, or
+ * mostly driving roads already used, are dropped. Penalties only raise edge costs, so the
+ * A* heuristic stays admissible. The best route comes first.
+ */
+export function calculateAlternativeRoutes(
+    graph: GraphData,
+    startCoord: Coordinate,
+    endCoord: Coordinate,
+    alternatives: AlternativeRouteOptions,
+    options?: RoutingOptions
+): RouteResult[] {
+    const index = getRoutingIndex(graph);
+    const model = getCostModel(graph, index, options);
+    const startSnap = snapToRoad(index, model, startCoord, options);
+    const endSnap = snapToRoad(index, model, endCoord, options);
+
+    const { profile } = resolveProfile(options);
+    const traffic = resolveTraffic(index, options, profile);
+    const best = findSnapPath(index, model, startSnap, endSnap, searchTraffic(options, traffic));
+    if (!best) {
+        throw new Error("No path found between the given coordinates");
+    }
+
+    const maxCost = pathCost(model, best) * Math.max(alternatives.maxDetour, 1);
+    const penalised: CostModel = { weights: model.weights.slice(), travelTimes: model.travelTimes, heuristicFactor: model.heuristicFactor };
+    const usedEdges = new Set<number>();
+    const paths = [best];
+    const penalise = (path: SnapPath) => {
+        for (const piece of path.pieces) {
+            penalised.weights[piece.edge] += ALTERNATIVE_PENALTY * model.weights[piece.edge];
+        }
+    };
+    penalise(best);
+    best.pieces.forEach(piece => usedEdges.add(piece.edge));
+
+    for (let attempt = 0; attempt < alternatives.count * ALTERNATIVE_SEARCHES && paths.length <= alternatives.count; attempt++) {
+        const candidate = findSnapPath(index, penalised, startSnap, endSnap, searchTraffic(options, traffic));
+        if (!candidate) {
+            break;
+        }
+        penalise(candidate);
+
+        const cost = pathCost(model, candidate);
+        if (cost > maxCost) {
+            continue;
+        }
+        const sharedCost = candidate.pieces
+            .filter(piece => usedEdges.has(piece.edge))
+            .reduce((total, piece) => total + (piece.to - piece.from) * model.weights[piece.edge], 0);
+        if (cost > 0 && sharedCost / cost > MAX_ALTERNATIVE_OVERLAP) {
+            continue;
+        }
+        paths.push(candidate);
+        candidate.pieces.forEach(piece => usedEdges.add(piece.edge));
+    }
+
+    return paths.map(path => buildRouteResult(graph, index, path, startCoord, endCoord, profile, traffic, options?.departure));
+}
+
+/**
+ * Calculate a route visiting the stops in the given order, as the concatenation
+ * of the optimal route for each leg. With a departure time, each leg departs when
+ * the one before it arrives.
+ */
+export function calculateMultiStopRoute(
+    graph: GraphData,
+    stops: Coordinate[],
+    options?: RoutingOptions
+): RouteResult {
+    if (stops.length < 2) {
+        throw new Error("A route needs at least a start and an end");
+    }
+
+    const legResults: RouteResult[] = [];
+    for (let i = 0; i < stops.length - 1; i++) {
+        const previous = legResults[legResults.length - 1];
+        const legOptions = previous?.arrivalTime !== undefined ? { ...options, departure: previous.arrivalTime } : options;
+        try {
+            legResults.push(calculateRoute(graph, stops[i], stops[i + 1], legOptions));
+        } catch (error) {
+            const reason = error instanceof Error ? error.message : String(error);
+            throw new Error(`Leg ${i + 1}: ${reason}`);
+        }
+    }
+
+    return concatenateRoutes(legResults);
+}
+
+/**
+ * Join consecutive routes into one, keeping each of them as a leg
+ */
+function concatenateRoutes(routes: RouteResult[]): RouteResult {
+    const combined: RouteResult = {
+        coordinates: [],
+        nodeIds: [],
+        edges: [],
+        legs: [],
+        totalDistance: 0,
+        totalTime: 0
+    };
+
+    for (const route of routes) {
+        // Consecutive legs share their joining point
+        const last = combined.coordinates[combined.coordinates.length - 1];
+        const first = route.coordinates[0];
+        const skipFirst = last && first && last.lat === first.lat && last.lon === first.lon ? 1 : 0;
+        const startIndex = Math.max(combined.coordinates.length - skipFirst, 0);
+
+        combined.coordinates.push(...route.coordinates.slice(skipFirst));
+        const skipNode = combined.nodeIds.length > 0 && combined.nodeIds[combined.nodeIds.length - 1] === route.nodeIds[0] ? 1 : 0;
+        combined.nodeIds.push(...route.nodeIds.slice(skipNode));
+        for (const edge of route.edges) {
+            combined.edges.push({ ...edge, startIndex: startIndex + edge.startIndex, endIndex: startIndex + edge.endIndex });
+        }
+        for (const leg of route.legs) {
+            combined.legs.push({ ...leg, startIndex: startIndex + leg.startIndex });
+        }
+        combined.totalDistance += route.totalDistance;
+        combined.totalTime += route.totalTime;
+    }
+
+    if (routes.length > 0 && routes[0].departureTime !== undefined) {
+        combined.departureTime = routes[0].departureTime;
+        combined.arrivalTime = routes[routes.length - 1].arrivalTime;
+    }
+    return combined;
+}
+
+/**
+ * Cost (in the units of the routing objective) of travelling between every pair of stops.
+ * Each row is one Dijkstra search from a snapped stop that stops once the nodes leading
+ * to all other stops are settled; unreachable pairs cost Infinity. Turn restrictions are
+ * not applied to these estimates, only to the routes calculated from them.
+ */
+export function calculateTravelCostMatrix(
+    graph: GraphData,
+    stops: Coordinate[],
+    options?: RoutingOptions
+): number[][] {
+    const index = getRoutingIndex(graph);
+    const model = getCostModel(graph, index, options);
+    const snaps = stops.map(stop => snapToRoad(index, model, stop, options));
+    const arrivals = snaps.map(snap => arrivalLinks(index, model, snap));
+
+    return snaps.map((source, sourceIndex) => {
+        const remaining = new Set<number>();
+        arrivals.forEach((links, targetIndex) => {
+            if (targetIndex !== sourceIndex) {
+                links.forEach(link => remaining.add(link.node));
+            }
+        });
+        if (remaining.size > 0) {
+            runSearch(index, model, departureLinks(index, model, source), node => {
+                remaining.delete(node);
+                return remaining.size === 0;
+            }, () => 0);
+        }
+
+        return snaps.map((target, targetIndex) => {
+            if (targetIndex === sourceIndex) {
+                return 0;
+            }
+            const direct = directLink(model, source, target);
+            let cost = direct ? direct.cost : Infinity;
+            for (const link of arrivals[targetIndex]) {
+                cost = Math.min(cost, index.search.getG(link.node) + link.cost);
+            }
+            return cost;
+        });
+    });
+}
+
+/**
+ * Suggest the best order to visit a set of stops: a travel cost matrix is solved
+ * heuristically with nearest-neighbour construction followed by 2-opt improvement.
+ */
+export function optimiseStopOrder(
+    graph: GraphData,
+    stops: Coordinate[],
+    mode: StopOrderMode,
+    options?: RoutingOptions
+): OptimisedStopOrder {
+    if (stops.length < 2) {
+        throw new Error("A route needs at least a start and an end");
+    }
+
+    const matrix = calculateTravelCostMatrix(graph, stops, options);
+    const inputOrder = stops.map((_, stopIndex) => stopIndex);
+    const closed = mode === "roundTrip";
+    const fixedFirst = mode === "fixedStart" || mode === "fixedStartEnd" || mode === "roundTrip";
+    const fixedLast = mode === "fixedEnd" || mode === "fixedStartEnd";
+
+    const orderCost = (order: number[]): number => {
+        let cost = 0;
+        for (let i = 0; i < order.length - 1; i++) {
+            cost += matrix[order[i]][order[i + 1]];
+        }
+        return closed ? cost + matrix[order[order.length - 1]][order[0]] : cost;
+    };
+
+    // Nearest neighbour from every allowed first stop, keeping the cheapest tour
+    const lastStop = stops.length - 1;
+    const firstCandidates = fixedFirst ? [0] : inputOrder.filter(stopIndex => !fixedLast || stopIndex !== lastStop);
+    let best = inputOrder;
+    let bestCost = orderCost(inputOrder);
+
+    for (const first of firstCandidates) {
+        const order = [first];
+        const unvisited = new Set(inputOrder.filter(stopIndex => stopIndex !== first && (!fixedLast || stopIndex !== lastStop)));
+        while (unvisited.size > 0) {
+            const current = order[order.length - 1];
+            let next = -1;
+            for (const candidate of unvisited) {
+                if (next === -1 || matrix[current][candidate] < matrix[current][next]) {
+                    next = candidate;
+                }
+            }
+            order.push(next);
+            unvisited.delete(next);
+        }
+        if (fixedLast) {
+            order.push(lastStop);
+        }
+
+        const cost = orderCost(order);
+        if (cost < bestCost) {
+            best = order;
+            bestCost = cost;
+        }
+    }
+
+    // 2-opt: reverse segments of the movable part while that lowers the cost.
+    // Costs are recomputed in full because the matrix need not be symmetric.
+    const firstMovable = fixedFirst ? 1 : 0;
+    const lastMovable = fixedLast ? stops.length - 2 : stops.length - 1;
+    let improved = true;
+    while (improved) {
+        improved = false;
+        for (let i = firstMovable; i < lastMovable; i++) {
+            for (let j = i + 1; j <= lastMovable; j++) {
+                const candidate = [...best.slice(0, i), ...best.slice(i, j + 1).reverse(), ...best.slice(j + 1)];
+                const cost = orderCost(candidate);
+                if (cost < bestCost - 1e-9) {
+                    best = candidate;
+                    bestCost = cost;
+                    improved = true;
+                }
+            }
+        }
+    }
+
+    if (!isFinite(bestCost)) {
+        throw new Error("No order visits every stop: some stops cannot be reached from the others");
+    }
+
+    const toStops = (order: number[]) => {
+        const orderedStops = order.map(stopIndex => stops[stopIndex]);
+        return closed ? [...orderedStops, orderedStops[0]] : orderedStops;
+    };
+
+    return {
+        order: best,
+        route: calculateMultiStopRoute(graph, toStops(best), options),
+        inputRoute: calculateMultiStopRoute(graph, toStops(inputOrder), options)
+    };
+}
+
+/**
+ * Find every road reachable from an origin within each of the given time budgets (in seconds).
+ * A Dijkstra search on travel time is bounded by the largest budget; each edge that can be
+ * driven completely is assigned to the smallest budget that covers it. Roads to avoid are
+ * left out rather than made more expensive, so the bands stay in seconds; turn restrictions
+ * are not applied. With a departure time, the bands are measured on the elapsed-time clock
+ * in traffic, as routes with the same options are.
+ */
+export function calculateIsochrone(
+    graph: GraphData,
+    origin: Coordinate,
+    budgets: number[],
+    options?: RoutingOptions
+): IsochroneResult {
+    const index = getRoutingIndex(graph);
+    // The road the origin lies on can always be left, even when it is one to avoid
+    const departureModel = getCostModel(graph, index, { ...options, objective: "fastest", avoidMotorways: false, avoidTolls: false, avoidFerries: false });
+    const originSnap = snapToRoad(index, departureModel, origin, options);
+
+    const sortedBudgets = budgets.filter(budget => budget > 0).sort((a, b) => a - b);
+    const bands: IsochroneBand[] = sortedBudgets.map(budget => ({ budget, segments: [], roadLength: 0 }));
+    if (bands.length === 0) {
+        return { origin, bands };
+    }
+
+    const model = getCostModel(graph, index, { ...options, objective: "fastest" }, Infinity);
+    const traffic = resolveTraffic(index, options, resolveProfile(options).profile);
+    const maxBudget = sortedBudgets[sortedBudgets.length - 1];
+    const settled: number[] = [];
+    const departures = departureLinksInTraffic(index, departureModel, originSnap, traffic);
+
+    // The partial roads from the snapped origin to the nodes at either end
+    for (const departure of departures) {
+        const band = bands.find(candidate => departure.elapsed <= candidate.budget);
+        if (band) {
+            band.segments.push(edgeSlice(index, departure.edge, 1 - departure.share, 1));
+            band.roadLength += departure.share * graph.edges[index.edgeRefs[departure.edge]].length;
+        }
+    }
+
+    // Costs are travel times, so settling in cost order is settling in elapsed-time order
+    runSearch(index, model, departures, node => {
+        if (index.search.elapsed[node] > maxBudget) {
+            return true;
+        }
+        settled.push(node);
+        return false;
+    }, () => 0, traffic);
+
+    // Arrival at the end of every edge reachable within the largest budget
+    const arrivals = new Map<number, number>();
+    for (const from of settled) {
+        const fromElapsed = index.search.elapsed[from];
+        for (let edge = index.edgeOffsets[from]; edge < index.edgeOffsets[from + 1]; edge++) {
+            // The origin's own road is already drawn from the origin outwards
+            if (!isFinite(model.weights[edge]) || edge === originSnap.edge || edge === originSnap.reverseEdge) {
+                continue;
+            }
+            const travelTime = model.travelTimes[edge];
+            const arrival = fromElapsed + travelTime * trafficMultiplier(traffic, edge, fromElapsed, travelTime);
+            if (arrival <= maxBudget) {
+                arrivals.set(edge, arrival);
+            }
+        }
+    }
+
+    arrivals.forEach((arrival, edge) => {
+        // A two-way road reachable in both directions is drawn once, for the earlier arrival
+        const reverseEdge = findReverseEdge(index, edge);
+        const reverseArrival = reverseEdge === -1 ? undefined : arrivals.get(reverseEdge);
+        if (reverseArrival !== undefined && (reverseArrival < arrival || (reverseArrival === arrival && reverseEdge < edge))) {
+            return;
+        }
+        const band = bands.find(candidate => arrival <= candidate.budget)!;
+        band.segments.push(edgeSlice(index, edge, 0, 1));
+        band.roadLength += graph.edges[index.edgeRefs[edge]].length;
+    });
+
+    return { origin, bands };
+}
+
+/**
+ * Turn a path between two snapped points into a single-leg RouteResult, following
+ * the shape of every edge. Partial edges at either end count for the share of the
+ * edge that is driven. With a departure time, each edge is timed for the traffic when
+ * it is entered and the arrival time is reported.
+ */
+function buildRouteResult(
+    graph: GraphData,
+    index: RoutingIndex,
+    path: SnapPath,
+    startCoord: Coordinate,
+    endCoord: Coordinate,
+    profile: VehicleProfile,
+    traffic: TrafficDeparture | null,
+    departure: number | undefined
+): RouteResult {
+    const coordinates: Coordinate[] = [];
+    const edges: RouteEdgeStats[] = [];
+    let elapsed = 0;
+
+    for (const piece of path.pieces) {
+        // Consecutive pieces share their joining point
+        const startIndex = Math.max(coordinates.length - 1, 0);
+        for (const point of edgeSlice(index, piece.edge, piece.from, piece.to)) {
+            const last = coordinates[coordinates.length - 1];
+            if (!last || last.lat !== point.lat || last.lon !== point.lon) {
+                coordinates.push(point);
+            }
+        }
+
+        const share = piece.to - piece.from;
+        if (share > 0) {
+            const graphEdge = graph.edges[index.edgeRefs[piece.edge]];
+            const freeFlowTime = share * profileTravelTime(graphEdge, profile);
+            // Edges against a one-way road run from its `to` node to its `from` node
+            const stats: RouteEdgeStats = {
+                from: index.nodeIds[index.edgeSources[piece.edge]],
+                to: index.nodeIds[index.edgeTargets[piece.edge]],
+                length: share * graphEdge.length,
+                travelTime: freeFlowTime * trafficMultiplier(traffic, piece.edge, elapsed, freeFlowTime),
+                endsAtNode: piece.to === 1,
+                startIndex,
+                endIndex: coordinates.length - 1
+            };
+            if (graphEdge.name) {
+                stats.name = graphEdge.name;
+            }
+            if (graphEdge.highway) {
+                stats.highway = graphEdge.highway;
+            }
+            elapsed += stats.travelTime;
+            edges.push(stats);
+        }
+    }
+
+    const totalDistance = edges.reduce((total, edge) => total + edge.length, 0);
+    const totalTime = edges.reduce((total, edge) => total + edge.travelTime, 0);
+
+    const result: RouteResult = {
+        coordinates,
+        nodeIds: path.nodes.map(node => index.nodeIds[node]),
+        edges,
+        legs: [{ start: startCoord, end: endCoord, startIndex: 0, totalDistance, totalTime }],
+        totalDistance,
+        totalTime
+    };
+    if (departure !== undefined) {
+        result.departureTime = departure;
+        result.arrivalTime = departure + totalTime;
+        result.legs[0].arrivalTime = result.arrivalTime;
+    }
+    return result;
+}
+
+/**
+ * A route to export, with the name and category it is shown with
+ */
+export interface ExportedRoute {
+    name: string;
+    category?: string;
+    result: RouteResult;
+}
+
+/**
+ * Routes as a GeoJSON FeatureCollection with one LineString feature per route. Each feature
+ * carries the route's name, category, distance (m), travel time (s), start and end stops and,
+ * for routes with a departure time, its departure and arrival.
+ */
+export function routesToGeoJson(routes: ExportedRoute[]): string {
+    const features = routes.map(({ name, category, result }) => {
+        const start = result.legs[0]?.start ?? result.coordinates[0];
+        const end = result.legs[result.legs.length - 1]?.end ?? result.coordinates[result.coordinates.length - 1];
+        const properties: { [key: string]: string | number } = {
+            name,
+            distance_m: Math.round(result.totalDistance * 10) / 10,
+            travel_time_s: Math.round(result.totalTime * 10) / 10,
+            start_lat: start.lat,
+            start_lon: start.lon,
+            end_lat: end.lat,
+            end_lon: end.lon
+        };
+        if (category !== undefined) {
+            properties.category = category;
+        }
+        if (result.departureTime !== undefined && result.arrivalTime !== undefined) {
+            properties.departure = formatTimeOfWeek(result.departureTime);
+            properties.arrival = formatTimeOfWeek(result.arrivalTime);
+        }
+        return {
+            type: "Feature",
+            geometry: {
+                type: "LineString",
+                // GeoJSON positions are [longitude, latitude]
+                coordinates: result.coordinates.map(point => [point.lon, point.lat])
+            },
+            properties
+        };
+    });
+    return JSON.stringify({ type: "FeatureCollection", features }, null, 2);
+}
+
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&apos;");
+}
+
+/**
+ * Routes as a GPX 1.1 document with one track per route, for navigation devices.
+ * Each track's description gives its distance and travel time.
+ */
+export function routesToGpx(routes: ExportedRoute[]): string {
+    const lines = [
+        `<?xml version="1.0" encoding="UTF-8"?>`,
+        `<gpx version="1.1" creator="routingVisual" xmlns="http://www.topografix.com/GPX/1/1">`
+    ];
+    for (const { name, category, result } of routes) {
+        lines.push("  <trk>");
+        lines.push(`    <name>${escapeXml(name)}</name>`);
+        lines.push(`    <desc>${escapeXml(`${formatDistance(result.totalDistance)}, ${formatDuration(result.totalTime)}`)}</desc>`);
+        if (category !== undefined) {
+            lines.push(`    <type>${escapeXml(category)}</type>`);
+        }
+        lines.push("    <trkseg>");
+        for (const point of result.coordinates) {
+            lines.push(`      <trkpt lat="${point.lat.toFixed(7)}" lon="${point.lon.toFixed(7)}"/>`);
+        }
+        lines.push("    </trkseg>");
+        lines.push("  </trk>");
+    }
+    lines.push("</gpx>");
+    return lines.join("\n") + "\n";
+}
+
+function csvField(value: string | number): string {
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * The points of each route as CSV: its start, every graph node it passes and every stop,
+ * with the cumulative distance (m) and travel time (s) at each. Stops snapped part-way
+ * along a road have no node id. Routes with a departure time also get the arrival time
+ * at each point.
+ */
+export function routesToCsv(routes: ExportedRoute[]): string {
+    const timed = routes.some(({ result }) => result.departureTime !== undefined);
+    const header = ["route", "category", "point", "node_id", "lat", "lon", "cumulative_distance_m", "cumulative_time_s"];
+    const rows: Array<Array<string | number>> = [timed ? [...header, "arrival"] : header];
+
+    for (const { name, category, result } of routes) {
+        let distance = 0;
+        let time = 0;
+        let pointIndex = 0;
+        const addRow = (nodeId: number | "", point: Coordinate) => {
+            const row: Array<string | number> = [
+                name,
+                category ?? "",
+                pointIndex++,
+                nodeId,
+                point.lat.toFixed(7),
+                point.lon.toFixed(7),
+                distance.toFixed(1),
+                time.toFixed(1)
+            ];
+            if (timed) {
+                row.push(result.departureTime !== undefined ? formatTimeOfWeek(result.departureTime + time) : "");
+            }
+            rows.push(row);
+        };
+
+        if (result.coordinates.length > 0) {
+            addRow("", result.coordinates[0]);
+        }
+        for (const edge of result.edges) {
+            distance += edge.length;
+            time += edge.travelTime;
+            addRow(edge.endsAtNode ? edge.to : "", result.coordinates[edge.endIndex]);
+        }
+    }
+
+    return rows.map(row => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
+
+/**
+ * Format a distance in metres for display, e.g. "850 m" or "12.4 km"
+ */
+export function formatDistance(metres: number): string {
+    if (metres < 1000) {
+        return `${Math.round(metres)} m`;
+    }
+    return `${(metres / 1000).toFixed(metres < 100000 ? 1 : 0)} km`;
+}
+
+/**
+ * Format a time of the week in seconds after Monday 00:00 for display, e.g. "Tue 08:45".
+ * Times past the end of the week carry on into the next one.
+ */
+export function formatTimeOfWeek(seconds: number): string {
+    const days = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+    const totalMinutes = Math.round((((seconds % SECONDS_PER_WEEK) + SECONDS_PER_WEEK) % SECONDS_PER_WEEK) / 60) % (HOURS_PER_WEEK * 60);
+    const hours = Math.floor(totalMinutes / 60);
+    const minutes = totalMinutes % 60;
+    return `${days[Math.floor(hours / 24)]} ${(hours % 24).toString().padStart(2, "0")}:${minutes.toString().padStart(2, "0")}`;
+}
+
+/**
+ * Format a duration in seconds for display, e.g. "45 s", "12 min" or "1 h 05 min"
+ */
+export function formatDuration(seconds: number): string {
+    if (seconds < 60) {
+        return `${Math.round(seconds)} s`;
+    }
+    const totalMinutes = Math.round(seconds / 60);
+    if (totalMinutes < 60) {
+        return `${totalMinutes} min`;
+    }
+    const hours = Math.floor(totalMinutes / 60);
+    const minutes = totalMinutes % 60;
+    return `${hours} h ${minutes.toString().padStart(2, "0")} min`;
+}
@@ -26,6 +26,7 @@
 
 "use strict";
 
+import powerbi from "powerbi-visuals-api";
 import { formattingSettings } from "powerbi-visuals-utils-formattingmodel";
 
 import FormattingSettingsCard = formattingSettings.SimpleCard;
@@ -64,9 +65,512 @@ class CoordinatesCardSettings extends FormattingSettingsCard {
         placeholder: "e.g., -0.2067"
     });
 
+    waypoints = new formattingSettings.TextArea({
+        name: "waypoints",
+        displayName: "Waypoints",
+        value: "",
+        placeholder: "One \"latitude, longitude\" per line, in visiting order"
+    });
+
     name: string = "coordinates";
     displayName: string = "Route Coordinates";
-    slices: Array<FormattingSettingsSlice> = [this.startLatitude, this.startLongitude, this.endLatitude, this.endLongitude];
+    slices: Array<FormattingSettingsSlice> = [this.startLatitude, this.startLongitude, this.endLatitude, this.endLongitude, this.waypoints];
+}
+
+/**
+ * Routing Settings Card
+ */
+class RoutingCardSettings extends FormattingSettingsCard {
+    objective = new formattingSettings.ItemDropdown({
+        name: "objective",
+        displayName: "Optimise For",
+        items: [
+            { value: "fastest", displayName: "Fastest (travel time)" },
+            { value: "shortest", displayName: "Shortest (distance)" },
+            { value: "weighted", displayName: "Weighted blend" }
+        ],
+        value: { value: "fastest", displayName: "Fastest (travel time)" }
+    });
+
+    timeWeight = new formattingSettings.Slider({
+        name: "timeWeight",
+        displayName: "Travel Time Weight (%)",
+        value: 50,
+        options: {
+            minValue: { type: powerbi.visuals.ValidatorType.Min, value: 0 },
+            maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 100 },
+            unitSymbol: "%"
+        }
+    });
+
+    vehicle = new formattingSettings.ItemDropdown({
+        name: "vehicle",
+        displayName: "Vehicle",
+        items: [
+            { value: "car", displayName: "Car" },
+            { value: "truck", displayName: "Truck" },
+            { value: "bicycle", displayName: "Bicycle" },
+            { value: "walking", displayName: "Walking" }
+        ],
+        value: { value: "car", displayName: "Car" }
+    });
+
+    vehicleHeight = new formattingSettings.NumUpDown({
+        name: "vehicleHeight",
+        displayName: "Vehicle Height (m)",
+        description: "Roads with a lower maxheight are not used.",
+        value: 4,
+        options: {
+            minValue: { type: powerbi.visuals.ValidatorType.Min, value: 0 }
+        }
+    });
+
+    vehicleWeight = new formattingSettings.NumUpDown({
+        name: "vehicleWeight",
+        displayName: "Vehicle Weight (t)",
+        description: "Roads with a lower maxweight are not used.",
+        value: 40,
+        options: {
+            minValue: { type: powerbi.visuals.ValidatorType.Min, value: 0 }
+        }
+    });
+
+    departureDay = new formattingSettings.ItemDropdown({
+        name: "departureDay",
+        displayName: "Departure Day",
+        description: "With a departure day, routes are timed for the traffic in the graph's speed profiles and show their arrival time.",
+        items: [
+            { value: "none", displayName: "Not set" },
+            { value: "0", displayName: "Monday" },
+            { value: "1", displayName: "Tuesday" },
+            { value: "2", displayName: "Wednesday" },
+            { value: "3", displayName: "Thursday" },
+            { value: "4", displayName: "Friday" },
+            { value: "5", displayName: "Saturday" },
+            { value: "6", displayName: "Sunday" }
+        ],
+        value: { value: "none", displayName: "Not set" }
+    });
+
+    departureTime = new formattingSettings.TextInput({
+        name: "departureTime",
+        displayName: "Departure Time",
+        value: "08:00",
+        placeholder: "HH:MM"
+    });
+
+    maxSnapDistance = new formattingSettings.NumUpDown({
+        name: "maxSnapDistance",
+        displayName: "Max Snapping Distance (m)",
+        description: "Points further than this from the nearest road are not routed. 0 for no limit.",
+        value: 1000,
+        options: {
+            minValue: { type: powerbi.visuals.ValidatorType.Min, value: 0 }
+        }
+    });
+
+    avoidMotorways = new formattingSettings.ToggleSwitch({
+        name: "avoidMotorways",
+        displayName: "Avoid Motorways",
+        value: false
+    });
+
+    avoidTolls = new formattingSettings.ToggleSwitch({
+        name: "avoidTolls",
+        displayName: "Avoid Tolls",
+        value: false
+    });
+
+    avoidFerries = new formattingSettings.ToggleSwitch({
+        name: "avoidFerries",
+        displayName: "Avoid Ferries",
+        value: false
+    });
+
+    name: string = "routing";
+    displayName: string = "Routing";
+    slices: Array<FormattingSettingsSlice> = [
+        this.objective,
+        this.timeWeight,
+        this.vehicle,
+        this.vehicleHeight,
+        this.vehicleWeight,
+        this.departureDay,
+        this.departureTime,
+        this.maxSnapDistance,
+        this.avoidMotorways,
+        this.avoidTolls,
+        this.avoidFerries
+    ];
+
+    public onPreProcess(): void {
+        // The blend weight only applies to the weighted objective
+        this.timeWeight.visible = this.objective.value?.value === "weighted";
+        // Height and weight limits are only checked for trucks
+        const truck = this.vehicle.value?.value === "truck";
+        this.vehicleHeight.visible = truck;
+        this.vehicleWeight.visible = truck;
+        this.departureTime.visible = this.departureDay.value?.value !== "none";
+    }
+}
+
+/**
+ * Stop Order Settings Card
+ */
+class StopOrderCardSettings extends FormattingSettingsCard {
+    optimise = new formattingSettings.ToggleSwitch({
+        name: "optimise",
+        displayName: "Optimise Stop Order",
+        value: false
+    });
+
+    mode = new formattingSettings.ItemDropdown({
+        name: "mode",
+        displayName: "Keep Fixed",
+        items: [
+            { value: "fixedStart", displayName: "Start" },
+            { value: "fixedEnd", displayName: "End" },
+            { value: "fixedStartEnd", displayName: "Start and end" },
+            { value: "roundTrip", displayName: "Round trip from start" }
+        ],
+        value: { value: "fixedStartEnd", displayName: "Start and end" }
+    });
+
+    name: string = "stopOrder";
+    displayName: string = "Stop Order";
+    topLevelSlice = this.optimise;
+    slices: Array<FormattingSettingsSlice> = [this.mode];
+}
+
+/**
+ * Alternative Routes Settings Card
+ */
+class AlternativesCardSettings extends FormattingSettingsCard {
+    show = new formattingSettings.ToggleSwitch({
+        name: "show",
+        displayName: "Show Alternatives",
+        value: false
+    });
+
+    count = new formattingSettings.NumUpDown({
+        name: "count",
+        displayName: "Number of Alternatives",
+        value: 2,
+        options: {
+            minValue: { type: powerbi.visuals.ValidatorType.Min, value: 1 },
+            maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 5 }
+        }
+    });
+
+    maxDetour = new formattingSettings.NumUpDown({
+        name: "maxDetour",
+        displayName: "Max Detour Ratio",
+        description: "Alternatives costing more than this multiple of the best route are not shown, e.g. 1.5 for 50% longer.",
+        value: 1.5,
+        options: {
+            minValue: { type: powerbi.visuals.ValidatorType.Min, value: 1 },
+            maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 5 }
+        }
+    });
+
+    name: string = "alternatives";
+    displayName: string = "Alternative Routes";
+    topLevelSlice = this.show;
+    slices: Array<FormattingSettingsSlice> = [this.count, this.maxDetour];
+}
+
+/**
+ * Reachability (Isochrone) Settings Card
+ */
+class IsochroneCardSettings extends FormattingSettingsCard {
+    show = new formattingSettings.ToggleSwitch({
+        name: "show",
+        displayName: "Reachability Mode",
+        value: false
+    });
+
+    bands = new formattingSettings.TextInput({
+        name: "bands",
+        displayName: "Time Bands (minutes)",
+        value: "5, 10, 15",
+        placeholder: "e.g., 5, 10, 15"
+    });
+
+    name: string = "isochrone";
+    displayName: string = "Reachability";
+    topLevelSlice = this.show;
+    slices: Array<FormattingSettingsSlice> = [this.bands];
+}
+
+/**
+ * Route Summary Settings Card
+ */
+class SummaryCardSettings extends FormattingSettingsCard {
+    show = new formattingSettings.ToggleSwitch({
+        name: "show",
+        displayName: "Show Summary",
+        value: true
+    });
+
+    position = new formattingSettings.ItemDropdown({
+        name: "position",
+        displayName: "Position",
+        items: [
+            { value: "topLeft", displayName: "Top left" },
+            { value: "topRight", displayName: "Top right" },
+            { value: "bottomLeft", displayName: "Bottom left" },
+            { value: "bottomRight", displayName: "Bottom right" }
+        ],
+        value: { value: "topRight", displayName: "Top right" }
+    });
+
+    showDistance = new formattingSettings.ToggleSwitch({
+        name: "showDistance",
+        displayName: "Show Distance",
+        value: true
+    });
+
+    showTime = new formattingSettings.ToggleSwitch({
+        name: "showTime",
+        displayName: "Show Travel Time",
+        value: true
+    });
+
+    compareProfiles = new formattingSettings.ToggleSwitch({
+        name: "compareProfiles",
+        displayName: "Compare Vehicles",
+        description: "Also route every trip as each of the other vehicles and list their travel times.",
+        value: false
+    });
+
+    fontSize = new formattingSettings.NumUpDown({
+        name: "fontSize",
+        displayName: "Text Size",
+        value: 12,
+        options: {
+            minValue: { type: powerbi.visuals.ValidatorType.Min, value: 8 },
+            maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 32 }
+        }
+    });
+
+    name: string = "summary";
+    displayName: string = "Route Summary";
+    topLevelSlice = this.show;
+    slices: Array<FormattingSettingsSlice> = [this.position, this.showDistance, this.showTime, this.compareProfiles, this.fontSize];
+}
+
+/**
+ * Route Line Settings Card
+ */
+class RouteLineCardSettings extends FormattingSettingsCard {
+    colorByRoute = new formattingSettings.ToggleSwitch({
+        name: "colorByRoute",
+        displayName: "Colour by Route or Category",
+        value: true
+    });
+
+    color = new formattingSettings.ColorPicker({
+        name: "color",
+        displayName: "Line Colour",
+        value: { value: "#118DFF" }
+    });
+
+    width = new formattingSettings.NumUpDown({
+        name: "width",
+        displayName: "Line Width",
+        value: 4,
+        options: {
+            minValue: { type: powerbi.visuals.ValidatorType.Min, value: 1 },
+            maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 20 }
+        }
+    });
+
+    opacity = new formattingSettings.Slider({
+        name: "opacity",
+        displayName: "Opacity (%)",
+        value: 100,
+        options: {
+            minValue: { type: powerbi.visuals.ValidatorType.Min, value: 10 },
+            maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 100 },
+            unitSymbol: "%"
+        }
+    });
+
+    dash = new formattingSettings.ItemDropdown({
+        name: "dash",
+        displayName: "Line Style",
+        items: [
+            { value: "solid", displayName: "Solid" },
+            { value: "dot", displayName: "Dotted" },
+            { value: "dash", displayName: "Dashed" },
+            { value: "longdash", displayName: "Long dashes" },
+            { value: "dashdot", displayName: "Dash-dot" }
+        ],
+        value: { value: "solid", displayName: "Solid" }
+    });
+
+    name: string = "routeLine";
+    displayName: string = "Route Line";
+    slices: Array<FormattingSettingsSlice> = [this.colorByRoute, this.color, this.width, this.opacity, this.dash];
+
+    public onPreProcess(): void {
+        // Routes take their colour from the report palette unless one colour is chosen for all
+        this.color.visible = !this.colorByRoute.value;
+    }
+}
+
+/**
+ * Markers Settings Card
+ */
+class MarkersCardSettings extends FormattingSettingsCard {
+    startColor = new formattingSettings.ColorPicker({
+        name: "startColor",
+        displayName: "Start Colour",
+        value: { value: "#008000" }
+    });
+
+    endColor = new formattingSettings.ColorPicker({
+        name: "endColor",
+        displayName: "End Colour",
+        value: { value: "#FF0000" }
+    });
+
+    waypointColor = new formattingSettings.ColorPicker({
+        name: "waypointColor",
+        displayName: "Waypoint Colour",
+        value: { value: "#FFA500" }
+    });
+
+    size = new formattingSettings.NumUpDown({
+        name: "size",
+        displayName: "Start and End Size",
+        value: 15,
+        options: {
+            minValue: { type: powerbi.visuals.ValidatorType.Min, value: 4 },
+            maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 40 }
+        }
+    });
+
+    waypointSize = new formattingSettings.NumUpDown({
+        name: "waypointSize",
+        displayName: "Waypoint Size",
+        value: 12,
+        options: {
+            minValue: { type: powerbi.visuals.ValidatorType.Min, value: 4 },
+            maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 40 }
+        }
+    });
+
+    labels = new formattingSettings.ItemDropdown({
+        name: "labels",
+        displayName: "Labels",
+        items: [
+            { value: "none", displayName: "None" },
+            { value: "waypoints", displayName: "Waypoint numbers" },
+            { value: "all", displayName: "All markers" }
+        ],
+        value: { value: "waypoints", displayName: "Waypoint numbers" }
+    });
+
+    name: string = "markers";
+    displayName: string = "Markers";
+    slices: Array<FormattingSettingsSlice> = [this.startColor, this.endColor, this.waypointColor, this.size, this.waypointSize, this.labels];
+}
+
+/**
+ * Map Settings Card
+ */
+class MapCardSettings extends FormattingSettingsCard {
+    style = new formattingSettings.ItemDropdown({
+        name: "style",
+        displayName: "Base Map",
+        items: [
+            { value: "open-street-map", displayName: "OpenStreetMap" },
+            { value: "carto-positron", displayName: "Light" },
+            { value: "carto-darkmatter", displayName: "Dark" },
+            { value: "blank", displayName: "Blank (offline)" }
+        ],
+        value: { value: "open-street-map", displayName: "OpenStreetMap" }
+    });
+
+    showLegend = new formattingSettings.ToggleSwitch({
+        name: "showLegend",
+        displayName: "Show Legend",
+        value: true
+    });
+
+    showToolbar = new formattingSettings.ToggleSwitch({
+        name: "showToolbar",
+        displayName: "Show Toolbar",
+        value: true
+    });
+
+    showExport = new formattingSettings.ToggleSwitch({
+        name: "showExport",
+        displayName: "Show Export",
+        description: "Buttons to download the routes as GeoJSON, GPX or CSV, where the report allows downloads.",
+        value: true
+    });
+
+    name: string = "map";
+    displayName: string = "Map";
+    slices: Array<FormattingSettingsSlice> = [this.style, this.showLegend, this.showToolbar, this.showExport];
+}
+
+/**
+ * Directions Settings Card
+ */
+class DirectionsCardSettings extends FormattingSettingsCard {
+    show = new formattingSettings.ToggleSwitch({
+        name: "show",
+        displayName: "Show Directions",
+        value: true
+    });
+
+    name: string = "directions";
+    displayName: string = "Directions";
+    topLevelSlice = this.show;
+    slices: Array<FormattingSettingsSlice> = [];
+}
+
+/**
+ * Road Graph Source Settings Card
+ */
+class GraphSourceCardSettings extends FormattingSettingsCard {
+    source = new formattingSettings.ItemDropdown({
+        name: "source",
+        displayName: "Graph Source",
+        items: [
+            { value: "auto", displayName: "Automatic" },
+            { value: "data", displayName: "Bound graph fields" },
+            { value: "url", displayName: "URL" },
+            { value: "bundled", displayName: "Bundled asset" }
+        ],
+        value: { value: "auto", displayName: "Automatic" }
+    });
+
+    url = new formattingSettings.TextInput({
+        name: "url",
+        displayName: "Graph URL",
+        value: "",
+        placeholder: "https://example.com/osm_graph.bin"
+    });
+
+    showDiagnostics = new formattingSettings.ToggleSwitch({
+        name: "showDiagnostics",
+        displayName: "Show Diagnostics",
+        value: true
+    });
+
+    name: string = "graphSource";
+    displayName: string = "Road Graph";
+    slices: Array<FormattingSettingsSlice> = [this.source, this.url, this.showDiagnostics];
+
+    public onPreProcess(): void {
+        // Automatic uses the URL when no graph fields are bound
+        const source = this.source.value?.value;
+        this.url.visible = source === "url" || source === "auto";
+    }
 }
 
 /**
@@ -76,6 +580,19 @@ class CoordinatesCardSettings extends FormattingSettingsCard {
 export class VisualFormattingSettingsModel extends FormattingSettingsModel {
     // Create formatting settings model formatting cards
     coordinatesCard = new CoordinatesCardSettings();
+    routingCard = new RoutingCardSettings();
+    stopOrderCard = new StopOrderCardSettings();
+    alternativesCard = new AlternativesCardSettings();
+    isochroneCard = new IsochroneCardSettings();
+    summaryCard = new SummaryCardSettings();
+    directionsCard = new DirectionsCardSettings();
+    routeLineCard = new RouteLineCardSettings();
+    markersCard = new MarkersCardSettings();
+    mapCard = new MapCardSettings();
+    graphSourceCard = new GraphSourceCardSettings();
 
-    cards = [this.coordinatesCard];
+    cards = [
+        this.coordinatesCard, this.routingCard, this.stopOrderCard, this.alternativesCard, this.isochroneCard,
+        this.summaryCard, this.directionsCard, this.routeLineCard, this.markersCard, this.mapCard, this.graphSourceCard
+    ];
 }
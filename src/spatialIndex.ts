@@ -0,0 +1,166 @@
+/**
+ * Uniform grid spatial index used to snap coordinates onto the road graph
+ */
+
+/**
+ * Approximate length of one degree of latitude in kilometres
+ */
+const KM_PER_DEGREE = 111.195;
+
+export class SpatialGrid {
+    private cells = new Map<number, number[]>();
+    private minRow = Infinity;
+    private maxRow = -Infinity;
+    private minCol = Infinity;
+    private maxCol = -Infinity;
+    private maxAbsLat = 0;
+
+    constructor(private readonly cellSize: number) {}
+
+    /**
+     * Pick a cell size giving a few items per cell for the given extent
+     */
+    public static cellSizeFor(itemCount: number, latSpan: number, lonSpan: number): number {
+        const area = Math.max(latSpan * lonSpan, 1e-8);
+        const size = Math.sqrt(area / Math.max(itemCount / 4, 1));
+        return Math.min(Math.max(size, 0.0005), 1);
+    }
+
+    public insertPoint(id: number, lat: number, lon: number): void {
+        this.insertBox(id, lat, lon, lat, lon);
+    }
+
+    public insertBox(id: number, minLat: number, minLon: number, maxLat: number, maxLon: number): void {
+        const rowStart = this.row(minLat);
+        const rowEnd = this.row(maxLat);
+        const colStart = this.col(minLon);
+        const colEnd = this.col(maxLon);
+
+        for (let row = rowStart; row <= rowEnd; row++) {
+            for (let col = colStart; col <= colEnd; col++) {
+                const key = this.key(row, col);
+                let cell = this.cells.get(key);
+                if (!cell) {
+                    cell = [];
+                    this.cells.set(key, cell);
+                }
+                cell.push(id);
+            }
+        }
+
+        this.minRow = Math.min(this.minRow, rowStart);
+        this.maxRow = Math.max(this.maxRow, rowEnd);
+        this.minCol = Math.min(this.minCol, colStart);
+        this.maxCol = Math.max(this.maxCol, colEnd);
+        this.maxAbsLat = Math.max(this.maxAbsLat, Math.abs(minLat), Math.abs(maxLat));
+    }
+
+    /**
+     * Find the item closest to a coordinate by searching rings of cells around it.
+     * `distanceKm` gives the exact distance to a candidate; the search stops once no
+     * unvisited ring can hold anything closer than the best candidate or `maxDistanceKm`.
+     * Rings are clipped to the cells that hold items, and a coordinate outside them is
+     * compared with every item instead, so far-away coordinates do not walk empty rings.
+     */
+    public findNearest(
+        lat: number,
+        lon: number,
+        distanceKm: (id: number) => number,
+        maxDistanceKm: number = Infinity
+    ): { id: number; distance: number } | null {
+        if (this.cells.size === 0) {
+            return null;
+        }
+
+        const centerRow = this.row(lat);
+        const centerCol = this.col(lon);
+        // Smallest ground size of a cell, so ring distances are never over-estimated
+        const cellKm = this.cellSize * KM_PER_DEGREE * Math.max(Math.cos(Math.min(this.maxAbsLat, 89) * Math.PI / 180), 0.01);
+
+        let best: { id: number; distance: number } | null = null;
+        const seen = new Set<number>();
+        const visit = (cell: number[] | undefined) => {
+            best = SpatialGrid.nearestInCell(cell, best, seen, distanceKm, maxDistanceKm);
+        };
+
+        // Rings between the coordinate and the nearest occupied cell are empty
+        const firstRing = Math.max(
+            this.minRow - centerRow, centerRow - this.maxRow,
+            this.minCol - centerCol, centerCol - this.maxCol, 0
+        );
+        if (firstRing > 0) {
+            if ((firstRing - 1) * cellKm > maxDistanceKm) {
+                return null;
+            }
+            this.cells.forEach(visit);
+            return best;
+        }
+
+        const maxRing = Math.max(
+            centerRow - this.minRow, this.maxRow - centerRow,
+            centerCol - this.minCol, this.maxCol - centerCol
+        );
+        for (let ring = 0; ring <= maxRing; ring++) {
+            const ringDistance = Math.max(ring - 1, 0) * cellKm;
+            if (ringDistance > maxDistanceKm || (best && ringDistance > best.distance)) {
+                break;
+            }
+
+            const rowStart = Math.max(centerRow - ring, this.minRow);
+            const rowEnd = Math.min(centerRow + ring, this.maxRow);
+            const colStart = Math.max(centerCol - ring, this.minCol);
+            const colEnd = Math.min(centerCol + ring, this.maxCol);
+            for (let row = rowStart; row <= rowEnd; row++) {
+                if (row === centerRow - ring || row === centerRow + ring) {
+                    for (let col = colStart; col <= colEnd; col++) {
+                        visit(this.cells.get(this.key(row, col)));
+                    }
+                    continue;
+                }
+                if (centerCol - ring >= this.minCol) {
+                    visit(this.cells.get(this.key(row, centerCol - ring)));
+                }
+                if (ring > 0 && centerCol + ring <= this.maxCol) {
+                    visit(this.cells.get(this.key(row, centerCol + ring)));
+                }
+            }
+        }
+
+        return best;
+    }
+
+    /**
+     * The better of `best` and the items of a cell not seen before
+     */
+    private static nearestInCell(
+        cell: number[] | undefined,
+        best: { id: number; distance: number } | null,
+        seen: Set<number>,
+        distanceKm: (id: number) => number,
+        maxDistanceKm: number
+    ): { id: number; distance: number } | null {
+        for (const id of cell || []) {
+            if (seen.has(id)) {
+                continue;
+            }
+            seen.add(id);
+            const distance = distanceKm(id);
+            if (distance <= maxDistanceKm && (!best || distance < best.distance)) {
+                best = { id, distance };
+            }
+        }
+        return best;
+    }
+
+    private row(lat: number): number {
+        return Math.floor(lat / this.cellSize);
+    }
+
+    private col(lon: number): number {
+        return Math.floor(lon / this.cellSize);
+    }
+
+    private key(row: number, col: number): number {
+        return row * 1000000 + col;
+    }
+}
@@ -0,0 +1,108 @@
+/**
+ * Vehicle profiles: how fast each kind of traveller moves on each road class,
+ * and which roads it may use
+ */
+
+export type VehicleProfileId = "car" | "truck" | "bicycle" | "walking";
+
+export interface VehicleProfile {
+    id: VehicleProfileId;
+    label: string;
+    /** Speeds in km/h for road classes where the profile has its own speed */
+    speeds: { [highway: string]: number };
+    /**
+     * Speed in km/h on other road classes. Without one the profile drives at the road's
+     * own speed (from its travel_time or maxspeed), capped by `speeds` and `maxSpeed`.
+     */
+    defaultSpeed?: number;
+    /** Highest speed in km/h, applied over the road's maxspeed */
+    maxSpeed?: number;
+    /** Road classes the profile may not use */
+    excludedClasses: string[];
+    /** Whether the edges' maxheight and maxweight limits apply */
+    checksDimensions: boolean;
+    /**
+     * Whether roads closed to cars (access false) are closed to the profile too, and one-way
+     * roads may only be used in their direction. Otherwise both ways are open.
+     */
+    followsCarRestrictions: boolean;
+    /** Whether the graph's speed profiles (traffic by time of day) slow the profile down */
+    followsTraffic: boolean;
+}
+
+/**
+ * Size of the vehicle, checked against the height and weight limits of roads
+ */
+export interface VehicleDimensions {
+    /** Height in metres */
+    height: number;
+    /** Weight in tonnes */
+    weight: number;
+}
+
+const FOOT_ONLY_CLASSES = ["footway", "pedestrian", "path", "steps", "bridleway"];
+const MOTOR_ROAD_CLASSES = ["motorway", "motorway_link", "trunk", "trunk_link"];
+
+export const VEHICLE_PROFILES: { [id in VehicleProfileId]: VehicleProfile } = {
+    car: {
+        id: "car",
+        label: "Car",
+        speeds: {},
+        excludedClasses: [...FOOT_ONLY_CLASSES, "cycleway"],
+        checksDimensions: false,
+        followsCarRestrictions: true,
+        followsTraffic: true
+    },
+    truck: {
+        id: "truck",
+        label: "Truck",
+        speeds: { motorway: 80, motorway_link: 50, trunk: 70, trunk_link: 50, primary: 60, secondary: 60, residential: 30, living_street: 10 },
+        maxSpeed: 80,
+        excludedClasses: [...FOOT_ONLY_CLASSES, "cycleway"],
+        checksDimensions: true,
+        followsCarRestrictions: true,
+        followsTraffic: true
+    },
+    bicycle: {
+        id: "bicycle",
+        label: "Bicycle",
+        speeds: { cycleway: 18, footway: 6, pedestrian: 6, path: 12, track: 12 },
+        defaultSpeed: 16,
+        excludedClasses: [...MOTOR_ROAD_CLASSES, "steps"],
+        checksDimensions: false,
+        followsCarRestrictions: false,
+        followsTraffic: false
+    },
+    walking: {
+        id: "walking",
+        label: "Walking",
+        speeds: { steps: 2 },
+        defaultSpeed: 5,
+        excludedClasses: MOTOR_ROAD_CLASSES,
+        checksDimensions: false,
+        followsCarRestrictions: false,
+        followsTraffic: false
+    }
+};
+
+export const VEHICLE_PROFILE_IDS: VehicleProfileId[] = ["car", "truck", "bicycle", "walking"];
+
+/**
+ * Dimensions assumed for trucks when none are given
+ */
+export const DEFAULT_TRUCK_DIMENSIONS: VehicleDimensions = { height: 4, weight: 40 };
+
+/**
+ * Speed of a profile on a road in km/h, or 0 when the profile may not use the road.
+ * `roadSpeed` is the road's own speed for cars.
+ */
+export function profileSpeed(profile: VehicleProfile, highway: string | undefined, roadSpeed: number): number {
+    if (highway !== undefined && profile.excludedClasses.includes(highway)) {
+        return 0;
+    }
+    const classSpeed = highway !== undefined ? profile.speeds[highway] : undefined;
+    if (profile.defaultSpeed !== undefined) {
+        return classSpeed ?? profile.defaultSpeed;
+    }
+    return Math.min(roadSpeed, classSpeed ?? Infinity, profile.maxSpeed ?? Infinity);
+}
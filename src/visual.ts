@@ -30,29 +30,206 @@ import { FormattingSettingsService } from "powerbi-visuals-utils-formattingmodel
 import "./../style/visual.less";
 import * as React from "react";
 import { createRoot, Root } from "react-dom/client";
-import { RouteVisualization } from "./RouteVisualization";
-import { GraphData, Coordinate } from "./routingUtils";
+import { BaseMap, DEFAULT_MAP_STYLE, ExportFormat, LineDash, MapStyleOptions, MarkerLabels, RouteInteractions, RouteVisualization } from "./RouteVisualization";
+import { CalculatedRoute, GraphSource, GraphSummary, IsochroneOptions, RouteRequest, StopOrderOptions } from "./routeWorkerProtocol";
+import { RouteWorkerClient } from "./routeWorkerClient";
+import { GraphDiagnostics, GraphIssue } from "./graphValidation";
+import { RouteSummaryOptions, SummaryPosition } from "./RouteSummary";
+import {
+    AlternativeRouteOptions,
+    Coordinate,
+    ExportedRoute,
+    formatDistance,
+    formatDuration,
+    formatTimeOfWeek,
+    GraphData,
+    GraphEdge,
+    GraphNode,
+    RoutingObjective,
+    RoutingOptions,
+    routesToCsv,
+    routesToGeoJson,
+    routesToGpx,
+    StopOrderMode
+} from "./routingUtils";
 import { VisualFormattingSettingsModel } from "./settings";
+import { VehicleProfileId } from "./vehicleProfiles";
+import { Endpoint } from "./markerEditing";
 
 import VisualConstructorOptions = powerbi.extensibility.visual.VisualConstructorOptions;
 import VisualUpdateOptions = powerbi.extensibility.visual.VisualUpdateOptions;
 import IVisual = powerbi.extensibility.visual.IVisual;
+import IVisualHost = powerbi.extensibility.visual.IVisualHost;
+import ISelectionManager = powerbi.extensibility.ISelectionManager;
+import ISelectionId = powerbi.visuals.ISelectionId;
+import VisualTooltipDataItem = powerbi.extensibility.VisualTooltipDataItem;
+import DataView = powerbi.DataView;
+import DataViewTable = powerbi.DataViewTable;
+
+/**
+ * Data roles (see capabilities.json) that carry the route coordinates
+ */
+const COORDINATE_ROLES = ["startLatitude", "startLongitude", "endLatitude", "endLongitude"] as const;
+type CoordinateRole = typeof COORDINATE_ROLES[number];
+const CATEGORY_ROLE = "category";
+const WAYPOINT_LATITUDE_ROLE = "waypointLatitude";
+const WAYPOINT_LONGITUDE_ROLE = "waypointLongitude";
+const WAYPOINT_SEQUENCE_ROLE = "waypointSequence";
+const DEPARTURE_TIME_ROLE = "departureTime";
+const TOOLTIPS_ROLE = "tooltips";
+const ROUTE_ROLES = [
+    ...COORDINATE_ROLES, CATEGORY_ROLE, WAYPOINT_LATITUDE_ROLE, WAYPOINT_LONGITUDE_ROLE, WAYPOINT_SEQUENCE_ROLE, DEPARTURE_TIME_ROLE, TOOLTIPS_ROLE
+];
+
+/**
+ * Data roles that carry the road graph as node and edge tables. Routes, nodes and edges each
+ * have a data view mapping of their own, so their tables are not joined with each other.
+ */
+const GRAPH_NODE_ROLES = ["graphNodeId", "graphNodeLatitude", "graphNodeLongitude"] as const;
+const GRAPH_EDGE_ROLES = ["graphEdgeFrom", "graphEdgeTo", "graphEdgeLength", "graphEdgeTravelTime", "graphEdgeMaxSpeed"] as const;
+type GraphRole = typeof GRAPH_NODE_ROLES[number] | typeof GRAPH_EDGE_ROLES[number];
+const REQUIRED_GRAPH_ROLES: { role: GraphRole; displayName: string }[] = [
+    { role: "graphNodeId", displayName: "Node ID" },
+    { role: "graphNodeLatitude", displayName: "Node Latitude" },
+    { role: "graphNodeLongitude", displayName: "Node Longitude" },
+    { role: "graphEdgeFrom", displayName: "Edge From Node" },
+    { role: "graphEdgeTo", displayName: "Edge To Node" },
+    { role: "graphEdgeLength", displayName: "Edge Length" }
+];
+
+type GraphSourceKind = "data" | "url" | "bundled";
+
+const GRAPH_SOURCE_HINTS: Record<GraphSourceKind, string> = {
+    data: "The graph is built from the Node and Edge fields bound to the visual",
+    url: "The graph is downloaded from the URL in the Road Graph settings",
+    bundled: "Please ensure osm_graph.bin or osm_graph.json is in the assets folder"
+};
+
+/**
+ * The data view whose table has a column bound to one of `roles`. Each data view mapping
+ * in capabilities.json gives its own data view, and mappings with no fields bound give none.
+ */
+function findDataView(dataViews: DataView[], roles: readonly string[]): DataView | undefined {
+    return dataViews.find(dataView => dataView.table?.columns?.some(column => roles.some(role => column.roles?.[role])));
+}
+
+/**
+ * FNV-1a hash of the bound graph values, used to notice when the graph rows change
+ */
+function hashGraphRows(rows: powerbi.DataViewTableRow[], columnIndexes: number[]): string {
+    let hash = 0x811c9dc5;
+    for (const row of rows) {
+        for (const columnIndex of columnIndexes) {
+            const text = String(row[columnIndex]) + "|";
+            for (let i = 0; i < text.length; i++) {
+                hash ^= text.charCodeAt(i);
+                hash = Math.imul(hash, 0x01000193);
+            }
+        }
+    }
+    return `${rows.length}:${(hash >>> 0).toString(16)}`;
+}
+
+function formatTooltipValue(value: powerbi.PrimitiveValue): string {
+    if (value === null || value === undefined) {
+        return "";
+    }
+    if (typeof value === "number" || value instanceof Date) {
+        return value.toLocaleString();
+    }
+    return String(value);
+}
+
+/**
+ * A date and time as seconds after Monday 00:00 of its week, local time
+ */
+function timeOfWeek(date: Date): number {
+    const day = (date.getDay() + 6) % 7; // getDay() counts from Sunday
+    return day * 86400 + date.getHours() * 3600 + date.getMinutes() * 60 + date.getSeconds();
+}
+
+/**
+ * Seconds after Monday 00:00 for a bound departure time (a date/time value or text Date can parse),
+ * or undefined when the value is blank or not a date
+ */
+function parseDepartureValue(value: powerbi.PrimitiveValue): number | undefined {
+    const date = value instanceof Date ? value : typeof value === "string" && value.trim() !== "" ? new Date(value) : null;
+    return date && !isNaN(date.getTime()) ? timeOfWeek(date) : undefined;
+}
+
+/**
+ * The previous value when the next one equals it, so the routes are not recalculated
+ * for updates that rebuild the same options (such as a resize)
+ */
+function keepIfEqual<T>(previous: T, next: T): T {
+    return JSON.stringify(previous) === JSON.stringify(next) ? previous : next;
+}
+
+/**
+ * Seconds after midnight for a time of day entered as "HH:MM", or NaN
+ */
+function parseTimeOfDay(text: string): number {
+    const match = /^\s*(\d{1,2})(?::(\d{2}))?\s*$/.exec(text || "");
+    if (!match) {
+        return NaN;
+    }
+    const hours = Number(match[1]);
+    const minutes = match[2] !== undefined ? Number(match[2]) : 0;
+    return hours < 24 && minutes < 60 ? hours * 3600 + minutes * 60 : NaN;
+}
 
 export class Visual implements IVisual {
     private target: HTMLElement;
     private formattingSettings: VisualFormattingSettingsModel;
     private formattingSettingsService: FormattingSettingsService;
     private reactRoot: Root | null = null;
-    private graphData: GraphData | null = null;
-    private startCoord: Coordinate | null = null;
-    private endCoord: Coordinate | null = null;
+    private host: IVisualHost;
+    private selectionManager: ISelectionManager;
+    /** Whether the report lets the visual download files, for route exports */
+    private exportAllowed = false;
+    private routeWorker: RouteWorkerClient;
+    private graphSummary: GraphSummary | null = null;
+    private graphError: string | null = null;
+    /** Identifies the graph currently loaded (or loading), so it is only reloaded when its source changes */
+    private graphSourceKey: string | null = null;
+    private graphSourceKind: GraphSourceKind = "bundled";
+    private routes: RouteRequest[] = [];
+    /** True when the routes come from the Route Coordinates card, so their endpoints can be moved on the map */
+    private routesFromSettings = false;
+    /** Identities of the table rows behind each route bound through data roles, by route id */
+    private routeSelectionIds = new Map<string, ISelectionId[]>();
+    /** Routes highlighted by a selection in another visual, or null when nothing is highlighted */
+    private highlightedRouteIds: string[] | null = null;
+    /** Values of the Tooltips fields for each route bound through data roles, by route id */
+    private routeTooltipFields = new Map<string, VisualTooltipDataItem[]>();
+    private routingOptions: RoutingOptions = {};
+    private stopOrderOptions: StopOrderOptions = { optimise: false, mode: "fixedStartEnd" };
+    private isochroneOptions: IsochroneOptions = { enabled: false, budgets: [] };
+    private alternativeOptions: AlternativeRouteOptions = { count: 0, maxDetour: 1.5 };
+    private summaryOptions: RouteSummaryOptions = { show: true, position: "topRight", showDistance: true, showTime: true, compareProfiles: false, fontSize: 12 };
+    private mapStyle: MapStyleOptions = DEFAULT_MAP_STYLE;
     private width: number = 0;
     private height: number = 0;
 
     constructor(options: VisualConstructorOptions) {
         console.log('Visual constructor', options);
         this.formattingSettingsService = new FormattingSettingsService();
+        this.host = options.host;
         this.target = options.element;
+
+        // Selections restored from bookmarks dim the same routes as clicks on the map
+        this.selectionManager = this.host.createSelectionManager();
+        this.selectionManager.registerOnSelectCallback(() => this.renderVisual());
+
+        // Routes can only be exported where the report allows visuals to download files
+        this.host.downloadService?.exportStatus().then(status => {
+            this.exportAllowed = status === powerbi.PrivilegeStatus.Allowed;
+            if (this.graphSummary) {
+                this.renderVisual();
+            }
+        }).catch(() => {
+            this.exportAllowed = false;
+        });
         
         // Create a container div for React
         const container = document.createElement("div");
@@ -62,12 +239,14 @@ export class Visual implements IVisual {
         
         // Initialize React root
         this.reactRoot = createRoot(container);
+
+        // Graph parsing, indexing and routing run in a worker; if it cannot start, the diagnostics say so
+        this.routeWorker = new RouteWorkerClient(() => this.renderVisual());
         
         // Render initial placeholder
         this.renderInitialPlaceholder();
-        
-        // Load OSM graph data
-        this.loadGraphData();
+
+        // The graph is loaded by update(), once the graph source settings are known
     }
 
     private renderInitialPlaceholder(): void {
@@ -78,40 +257,183 @@ export class Visual implements IVisual {
         // This ensures settings are available when we render
     }
 
-    private async loadGraphData(): Promise<void> {
-        try {
-            // Try to load from assets folder (when packaged) or from the same directory
-            const graphPath = (window as any).location.href.includes('localhost') 
-                ? './osm_graph.json' 
-                : './assets/osm_graph.json';
-            
-            const response = await fetch(graphPath);
-            if (!response.ok) {
-                throw new Error(`Failed to load graph: ${response.statusText}`);
+    /**
+     * Pick the graph source from the Road Graph settings. Automatic prefers bound
+     * graph fields, then a configured URL, then the bundled asset.
+     */
+    private resolveGraphSourceKind(graphFieldsBound: boolean): GraphSourceKind {
+        const graphCard = this.formattingSettings?.graphSourceCard;
+        const setting = graphCard?.source.value?.value as GraphSourceKind | "auto" | undefined;
+        if (setting === "data" || setting === "url" || setting === "bundled") {
+            return setting;
+        }
+        if (graphFieldsBound) {
+            return "data";
+        }
+        return (graphCard?.url.value || '').trim() !== '' ? "url" : "bundled";
+    }
+
+    /**
+     * Load the graph from the selected source, unless that graph is already loaded
+     */
+    private updateGraphSource(nodeTable: DataViewTable | undefined, edgeTable: DataViewTable | undefined): void {
+        this.graphSourceKind = this.resolveGraphSourceKind(!!nodeTable || !!edgeTable);
+
+        switch (this.graphSourceKind) {
+            case "data":
+                this.loadGraphFromDataView(nodeTable, edgeTable);
+                break;
+            case "url":
+                this.loadGraphFromUrl((this.formattingSettings?.graphSourceCard?.url.value || '').trim());
+                break;
+            default: {
+                // Try the assets folder (when packaged) or the same directory,
+                // preferring the compact binary graph over the JSON export.
+                // URLs are made absolute because the worker resolves relative URLs against its own script.
+                const graphPaths = ['./assets/osm_graph.bin', './assets/osm_graph.json', './osm_graph.bin', './osm_graph.json'];
+                this.setGraphSource("bundled", () => ({
+                    kind: "url",
+                    label: "Bundled graph asset",
+                    urls: graphPaths.map(path => new URL(path, window.location.href).href)
+                }));
             }
-            
-            const data = await response.json();
-            this.graphData = data as GraphData;
-            console.log('Graph data loaded:', this.graphData.node_count, 'nodes,', this.graphData.edge_count, 'edges');
-            
-            // Always re-render after loading graph data
-            this.renderVisual();
-        } catch (error) {
-            console.error('Error loading graph data:', error);
-            // Try alternative path
+        }
+    }
+
+    private loadGraphFromUrl(url: string): void {
+        this.setGraphSource(`url:${url}`, () => {
+            if (url === '') {
+                throw new Error("Graph URL: enter the address of a graph file in the Road Graph settings");
+            }
+            let parsed: URL;
             try {
-                const altResponse = await fetch('./osm_graph.json');
-                if (altResponse.ok) {
-                    const data = await altResponse.json();
-                    this.graphData = data as GraphData;
-                    console.log('Graph data loaded from alternative path');
-                    // Always re-render after loading graph data
-                    this.renderVisual();
+                parsed = new URL(url);
+            } catch {
+                throw new Error(`Graph URL: "${url}" is not a valid address`);
+            }
+            // Matches the WebAccess privilege declared in capabilities.json
+            if (parsed.protocol !== "https:") {
+                throw new Error(`Graph URL: "${url}" must start with https://`);
+            }
+            return { kind: "url", label: `Graph URL ${url}`, urls: [parsed.href] };
+        });
+    }
+
+    private loadGraphFromDataView(nodeTable: DataViewTable | undefined, edgeTable: DataViewTable | undefined): void {
+        const columnIndexes = {} as Record<GraphRole, number>;
+        for (const role of GRAPH_NODE_ROLES) {
+            columnIndexes[role] = this.findColumnIndex(nodeTable, role);
+        }
+        for (const role of GRAPH_EDGE_ROLES) {
+            columnIndexes[role] = this.findColumnIndex(edgeTable, role);
+        }
+        const missing = REQUIRED_GRAPH_ROLES.filter(({ role }) => columnIndexes[role] === -1);
+        if (missing.length > 0) {
+            const names = missing.map(({ displayName }) => displayName).join(", ");
+            this.setGraphSource(`data:missing:${names}`, () => {
+                throw new Error(`Bound graph fields: bind ${names} to build the graph from report data`);
+            });
+            return;
+        }
+
+        const nodeRows = nodeTable.rows || [];
+        const edgeRows = edgeTable.rows || [];
+        const key = `data:${hashGraphRows(nodeRows, GRAPH_NODE_ROLES.map(role => columnIndexes[role]))}` +
+            `:${hashGraphRows(edgeRows, GRAPH_EDGE_ROLES.map(role => columnIndexes[role]))}`;
+        this.setGraphSource(key, () => ({ kind: "data", label: "Bound graph fields", graph: this.buildGraphFromRows(nodeRows, edgeRows, columnIndexes) }));
+    }
+
+    /**
+     * Collect the distinct nodes and edges from the bound node and edge rows; duplicate
+     * rows are dropped. Invalid values are kept for the schema check to report.
+     */
+    private buildGraphFromRows(nodeRows: powerbi.DataViewTableRow[], edgeRows: powerbi.DataViewTableRow[], columnIndexes: Record<GraphRole, number>): GraphData {
+        const isBlank = (value: powerbi.PrimitiveValue) => value === null || value === undefined || value === '';
+        const optionalNumber = (role: GraphRole, row: powerbi.DataViewTableRow) =>
+            columnIndexes[role] !== -1 && !isBlank(row[columnIndexes[role]]) ? this.parseCoordinateValue(row[columnIndexes[role]]) : undefined;
+
+        const nodes: { [key: string]: GraphNode } = {};
+        const edges: GraphEdge[] = [];
+        const edgeKeys = new Set<string>();
+
+        for (const row of nodeRows) {
+            if (!isBlank(row[columnIndexes.graphNodeId])) {
+                const id = this.parseCoordinateValue(row[columnIndexes.graphNodeId]);
+                nodes[String(id)] = {
+                    id,
+                    lat: this.parseCoordinateValue(row[columnIndexes.graphNodeLatitude]),
+                    lon: this.parseCoordinateValue(row[columnIndexes.graphNodeLongitude])
+                };
+            }
+        }
+
+        for (const row of edgeRows) {
+            if (!isBlank(row[columnIndexes.graphEdgeFrom]) && !isBlank(row[columnIndexes.graphEdgeTo])) {
+                const edge: GraphEdge = {
+                    from: this.parseCoordinateValue(row[columnIndexes.graphEdgeFrom]),
+                    to: this.parseCoordinateValue(row[columnIndexes.graphEdgeTo]),
+                    length: this.parseCoordinateValue(row[columnIndexes.graphEdgeLength]),
+                    // Without a travel time the router derives one from the length and speed
+                    travel_time: optionalNumber("graphEdgeTravelTime", row) ?? 0
+                };
+                const maxspeed = optionalNumber("graphEdgeMaxSpeed", row);
+                if (maxspeed !== undefined) {
+                    edge.maxspeed = maxspeed;
                 }
-            } catch (altError) {
-                console.error('Failed to load graph from alternative path:', altError);
+                const edgeKey = [edge.from, edge.to, edge.length, edge.travel_time, edge.maxspeed].join("|");
+                if (!edgeKeys.has(edgeKey)) {
+                    edgeKeys.add(edgeKey);
+                    edges.push(edge);
+                }
+            }
+        }
+
+        return { nodes, edges, node_count: Object.keys(nodes).length, edge_count: edges.length };
+    }
+
+    /**
+     * Start loading a graph when `key` differs from the graph already loaded.
+     * Errors thrown by `getSource` are shown as the graph error.
+     */
+    private setGraphSource(key: string, getSource: () => GraphSource): void {
+        if (key === this.graphSourceKey) {
+            return;
+        }
+        this.graphSourceKey = key;
+        this.graphSummary = null;
+        this.graphError = null;
+
+        let source: GraphSource;
+        try {
+            source = getSource();
+        } catch (error) {
+            console.error('Invalid graph source:', error);
+            this.graphError = error instanceof Error ? error.message : String(error);
+            return;
+        }
+        this.loadGraphData(key, source);
+    }
+
+    private async loadGraphData(key: string, source: GraphSource): Promise<void> {
+        try {
+            const summary = await this.routeWorker.loadGraph(source);
+            if (key !== this.graphSourceKey) {
+                return; // Superseded by another source
             }
+            // A graph with errors cannot route anything, so report it like a load failure
+            const errors = summary.diagnostics.issues.filter(issue => issue.severity === "error");
+            this.graphSummary = errors.length > 0 ? null : summary;
+            this.graphError = errors.length > 0 ? errors.map(issue => issue.message).join("; ") : null;
+        } catch (error) {
+            if (key !== this.graphSourceKey) {
+                return;
+            }
+            console.error('Error loading graph data:', error);
+            this.graphError = error instanceof Error ? error.message : String(error);
         }
+
+        // Always re-render after loading graph data
+        this.renderVisual();
     }
 
     public update(options: VisualUpdateOptions) {
@@ -130,20 +452,245 @@ export class Visual implements IVisual {
         this.width = options.viewport.width;
         this.height = options.viewport.height;
         
-        // Parse coordinates from settings
-        this.parseCoordinatesFromSettings();
+        this.routingOptions = keepIfEqual(this.routingOptions, this.getRoutingOptions());
+        this.stopOrderOptions = keepIfEqual(this.stopOrderOptions, this.getStopOrderOptions());
+        this.isochroneOptions = keepIfEqual(this.isochroneOptions, this.getIsochroneOptions());
+        this.alternativeOptions = keepIfEqual(this.alternativeOptions, this.getAlternativeOptions());
+        this.summaryOptions = this.getSummaryOptions();
+        this.mapStyle = this.getMapStyle();
+
+        const dataViews = options.dataViews || [];
+        const dataView = findDataView(dataViews, ROUTE_ROLES);
+        const nodeView = findDataView(dataViews, GRAPH_NODE_ROLES);
+        const edgeView = findDataView(dataViews, GRAPH_EDGE_ROLES);
+
+        // Graph tables usually span several data windows; wait for all of them before building the graph
+        const graphSegmented = !!nodeView?.metadata?.segment || !!edgeView?.metadata?.segment;
+        if (graphSegmented && this.resolveGraphSourceKind(true) === "data" && this.host.fetchMoreData(true)) {
+            const rowsLoaded = (nodeView?.table?.rows?.length ?? 0) + (edgeView?.table?.rows?.length ?? 0);
+            this.renderMessage("Loading graph data...", `${rowsLoaded} rows loaded so far`);
+            return;
+        }
+
+        this.updateGraphSource(nodeView?.table, edgeView?.table);
+
+        this.routeSelectionIds.clear();
+        this.routeTooltipFields.clear();
+        this.highlightedRouteIds = null;
+        const previousRoutes = this.routes;
+        // Prefer coordinates bound through data roles, fall back to the formatting pane
+        this.routesFromSettings = !this.parseRoutesFromDataView(dataView);
+        if (this.routesFromSettings) {
+            this.parseCoordinatesFromSettings();
+        }
+        this.routes = keepIfEqual(previousRoutes, this.routes);
         
         // Always render, even if coordinates are missing (to show helpful message)
         this.renderVisual();
     }
 
+    /**
+     * Build one route per table row (or per start/end/category when waypoints are bound)
+     * from the coordinates bound through data roles.
+     * Returns false when no coordinate fields are bound, so the caller can fall back to the formatting pane.
+     */
+    private parseRoutesFromDataView(dataView: DataView | undefined): boolean {
+        const table = dataView?.table;
+        const columnIndexes = this.getCoordinateColumnIndexes(table);
+        const boundRoles = COORDINATE_ROLES.filter(role => columnIndexes[role] !== -1);
+
+        if (boundRoles.length === 0) {
+            return false;
+        }
+
+        this.routes = [];
+
+        // Reachability mode only needs start coordinates
+        const requiredRoles: readonly CoordinateRole[] = this.isochroneOptions.enabled ? ["startLatitude", "startLongitude"] : COORDINATE_ROLES;
+        if (requiredRoles.some(role => columnIndexes[role] === -1)) {
+            console.warn('Not all coordinate fields are bound:', boundRoles);
+            return true;
+        }
+
+        const categoryIndex = this.findColumnIndex(table, CATEGORY_ROLE);
+        const waypointLatIndex = this.findColumnIndex(table, WAYPOINT_LATITUDE_ROLE);
+        const waypointLonIndex = this.findColumnIndex(table, WAYPOINT_LONGITUDE_ROLE);
+        const waypointSequenceIndex = this.findColumnIndex(table, WAYPOINT_SEQUENCE_ROLE);
+        const departureIndex = this.findColumnIndex(table, DEPARTURE_TIME_ROLE);
+        const hasWaypoints = waypointLatIndex !== -1 && waypointLonIndex !== -1;
+        const tooltipColumns = table.columns
+            .map((column, columnIndex) => ({ column, columnIndex }))
+            .filter(({ column }) => column.roles?.[TOOLTIPS_ROLE]);
+
+        // With waypoints bound there is one row per waypoint, so rows sharing start, end
+        // and category are collected into a single route
+        const routesByKey = new Map<string, { route: RouteRequest; waypoints: Array<{ coord: Coordinate; sequence: number }> }>();
+
+        // Routes by start, end and category, for matching the rows other visuals highlight
+        const routeIdsByEndpoints = new Map<string, string[]>();
+
+        (table.rows || []).forEach((row, rowIndex) => {
+            const endpoints = this.readRouteEndpoints(role => {
+                const columnIndex = role === CATEGORY_ROLE ? categoryIndex : columnIndexes[role];
+                return columnIndex !== -1 ? row[columnIndex] : undefined;
+            });
+            if (!endpoints) {
+                console.warn('Skipping row with invalid coordinates:', rowIndex);
+                return;
+            }
+
+            const key = hasWaypoints ? endpoints.key : `row-${rowIndex}`;
+            let entry = routesByKey.get(key);
+            if (!entry) {
+                entry = {
+                    route: this.createRouteRequest(
+                        `row-${rowIndex}`,
+                        `Route ${routesByKey.size + 1}`,
+                        endpoints.start,
+                        endpoints.end,
+                        endpoints.category
+                    ),
+                    waypoints: []
+                };
+                const sameEndpoints = routeIdsByEndpoints.get(endpoints.key) || [];
+                routeIdsByEndpoints.set(endpoints.key, [...sameEndpoints, entry.route.id]);
+                if (departureIndex !== -1) {
+                    entry.route.departure = parseDepartureValue(row[departureIndex]);
+                }
+                routesByKey.set(key, entry);
+                this.routeSelectionIds.set(entry.route.id, []);
+                this.routeTooltipFields.set(entry.route.id, tooltipColumns.map(({ column, columnIndex }) => ({
+                    displayName: column.displayName,
+                    value: formatTooltipValue(row[columnIndex])
+                })));
+            }
+
+            this.routeSelectionIds.get(entry.route.id).push(
+                this.host.createSelectionIdBuilder().withTable(table, rowIndex).createSelectionId());
+
+            if (hasWaypoints) {
+                const waypointLat = this.parseCoordinateValue(row[waypointLatIndex]);
+                const waypointLon = this.parseCoordinateValue(row[waypointLonIndex]);
+                const sequence = waypointSequenceIndex !== -1 ? Number(row[waypointSequenceIndex]) : NaN;
+                const isRepeat = entry.waypoints.some(waypoint =>
+                    waypoint.coord.lat === waypointLat && waypoint.coord.lon === waypointLon && (isNaN(sequence) || waypoint.sequence === sequence));
+                if (this.isValidCoordinate(waypointLat, waypointLon) && !isRepeat) {
+                    entry.waypoints.push({
+                        coord: { lat: waypointLat, lon: waypointLon },
+                        sequence: isNaN(sequence) ? entry.waypoints.length : sequence
+                    });
+                }
+            }
+        });
+
+        for (const { route, waypoints } of routesByKey.values()) {
+            route.waypoints = waypoints
+                .sort((a, b) => a.sequence - b.sequence)
+                .map(waypoint => waypoint.coord);
+            this.routes.push(route);
+        }
+
+        if (this.routes.length === 0) {
+            console.warn('No valid coordinates found in bound data');
+        }
+
+        this.highlightedRouteIds = this.getHighlightedRouteIds(dataView.categorical, routeIdsByEndpoints);
+        return true;
+    }
+
+    private getCoordinateColumnIndexes(table: DataViewTable | undefined): Record<CoordinateRole, number> {
+        const indexes = {} as Record<CoordinateRole, number>;
+        for (const role of COORDINATE_ROLES) {
+            indexes[role] = this.findColumnIndex(table, role);
+        }
+        return indexes;
+    }
+
+    /**
+     * Start, end and category of a route from the values bound to its roles (undefined for roles
+     * that are not bound), with a key for the three; null when the coordinates are invalid.
+     * In reachability mode a route without a valid end ends where it starts.
+     */
+    private readRouteEndpoints(valueOf: (role: CoordinateRole | typeof CATEGORY_ROLE) => powerbi.PrimitiveValue | undefined):
+        { start: Coordinate; end: Coordinate; category: string | undefined; key: string } | null {
+        const start = { lat: this.parseCoordinateValue(valueOf("startLatitude")), lon: this.parseCoordinateValue(valueOf("startLongitude")) };
+        let end = { lat: this.parseCoordinateValue(valueOf("endLatitude")), lon: this.parseCoordinateValue(valueOf("endLongitude")) };
+        if (this.isochroneOptions.enabled && !this.isValidCoordinate(end.lat, end.lon)) {
+            end = { ...start };
+        }
+        if (!this.isValidCoordinate(start.lat, start.lon) || !this.isValidCoordinate(end.lat, end.lon)) {
+            return null;
+        }
+        const categoryValue = valueOf(CATEGORY_ROLE);
+        const category = categoryValue !== null && categoryValue !== undefined ? String(categoryValue) : undefined;
+        return { start, end, category, key: [start.lat, start.lon, end.lat, end.lon, category].join("|") };
+    }
+
+    /**
+     * Routes highlighted by a selection in another visual, from the highlight values of the
+     * categorical data view; null when nothing is highlighted. The mapping asks for the start and
+     * end coordinates as values as well as categories, so every routes view has value columns to
+     * carry highlights, with or without Tooltips measures.
+     */
+    private getHighlightedRouteIds(categorical: powerbi.DataViewCategorical | undefined, routeIdsByEndpoints: Map<string, string[]>): string[] | null {
+        const highlightColumns = (categorical?.values || []).filter(column => column.highlights);
+        if (highlightColumns.length === 0) {
+            return null;
+        }
+        // Coordinates are read from the categories where they are grouped, and from the values otherwise
+        const columns: Array<powerbi.DataViewCategoryColumn | powerbi.DataViewValueColumn> = [...(categorical.categories || []), ...categorical.values];
+        const roleColumns = new Map(COORDINATE_ROLES.map(role => [role, columns.find(column => column.source.roles?.[role])]));
+        const categoryColumn = columns.find(column => column.source.roles?.[CATEGORY_ROLE]);
+
+        const highlighted = new Set<string>();
+        highlightColumns[0].highlights.forEach((_, rowIndex) => {
+            if (!highlightColumns.some(column => column.highlights[rowIndex] !== null)) {
+                return;
+            }
+            const endpoints = this.readRouteEndpoints(role => {
+                const column = role === CATEGORY_ROLE ? categoryColumn : roleColumns.get(role);
+                return column ? column.values[rowIndex] : undefined;
+            });
+            for (const routeId of (endpoints && routeIdsByEndpoints.get(endpoints.key)) || []) {
+                highlighted.add(routeId);
+            }
+        });
+        return [...highlighted];
+    }
+
+    private findColumnIndex(table: DataViewTable | undefined, role: string): number {
+        return table?.columns ? table.columns.findIndex(column => column.roles?.[role]) : -1;
+    }
+
+    /**
+     * Routes sharing a category share a colour; uncategorised routes get their own palette colour
+     */
+    private createRouteRequest(
+        id: string,
+        label: string,
+        start: Coordinate,
+        end: Coordinate,
+        category?: string,
+        waypoints: Coordinate[] = []
+    ): RouteRequest {
+        const colorKey = category !== undefined ? `category:${category}` : `route:${label}`;
+        return {
+            id,
+            label,
+            start,
+            end,
+            waypoints,
+            category,
+            color: this.host.colorPalette.getColor(colorKey).value
+        };
+    }
+
     private parseCoordinatesFromSettings(): void {
         try {
             if (!this.formattingSettings || !this.formattingSettings.coordinatesCard) {
                 console.warn('Settings not available, using defaults');
                 // Use default coordinates if settings not available
-                this.startCoord = { lat: 51.4643, lon: -0.1660 };
-                this.endCoord = { lat: 51.4907, lon: -0.2067 };
+                this.routes = [this.createRouteRequest("settings", "Route", { lat: 51.4643, lon: -0.1660 }, { lat: 51.4907, lon: -0.2067 })];
                 return;
             }
 
@@ -157,27 +704,209 @@ export class Visual implements IVisual {
             
             const startLat = this.parseCoordinateValue(coords.startLatitude.value);
             const startLon = this.parseCoordinateValue(coords.startLongitude.value);
-            const endLat = this.parseCoordinateValue(coords.endLatitude.value);
-            const endLon = this.parseCoordinateValue(coords.endLongitude.value);
+            let endLat = this.parseCoordinateValue(coords.endLatitude.value);
+            let endLon = this.parseCoordinateValue(coords.endLongitude.value);
+
+            if (this.isochroneOptions.enabled && !this.isValidCoordinate(endLat, endLon)) {
+                endLat = startLat;
+                endLon = startLon;
+            }
 
             if (this.isValidCoordinate(startLat, startLon) && this.isValidCoordinate(endLat, endLon)) {
-                this.startCoord = { lat: startLat, lon: startLon };
-                this.endCoord = { lat: endLat, lon: endLon };
-                console.log('Parsed coordinates from settings:', { start: this.startCoord, end: this.endCoord });
+                const waypoints = this.parseWaypointList(coords.waypoints.value);
+                this.routes = [this.createRouteRequest("settings", "Route", { lat: startLat, lon: startLon }, { lat: endLat, lon: endLon }, undefined, waypoints)];
+                console.log('Parsed coordinates from settings:', this.routes[0]);
             } else {
                 console.warn('Invalid coordinates from settings:', { startLat, startLon, endLat, endLon });
-                this.startCoord = null;
-                this.endCoord = null;
+                this.routes = [];
             }
         } catch (error) {
             console.error('Error parsing coordinates from settings:', error);
-            this.startCoord = null;
-            this.endCoord = null;
+            this.routes = [];
+        }
+    }
+
+    /**
+     * Move the start or end of the formatting-pane route to a point picked on the map.
+     * The route is recalculated right away, and the coordinates are persisted so they
+     * are saved with the report.
+     */
+    private moveEndpoint(endpoint: Endpoint, point: Coordinate): void {
+        const latitude = point.lat.toFixed(6);
+        const longitude = point.lon.toFixed(6);
+        const coords = this.formattingSettings?.coordinatesCard;
+        if (coords) {
+            (endpoint === "start" ? coords.startLatitude : coords.endLatitude).value = latitude;
+            (endpoint === "start" ? coords.startLongitude : coords.endLongitude).value = longitude;
+            this.parseCoordinatesFromSettings();
+            this.renderVisual();
+        }
+
+        this.host.persistProperties({
+            merge: [{
+                objectName: "coordinates",
+                selector: null,
+                properties: endpoint === "start"
+                    ? { startLatitude: latitude, startLongitude: longitude }
+                    : { endLatitude: latitude, endLongitude: longitude }
+            }]
+        });
+    }
+
+    /**
+     * Parse the formatting-pane waypoint list: one "latitude, longitude" pair per line
+     */
+    private parseWaypointList(value: string): Coordinate[] {
+        const waypoints: Coordinate[] = [];
+        for (const line of (value || '').split(/[\n;]/)) {
+            if (line.trim() === '') {
+                continue;
+            }
+            const [lat, lon] = line.split(/[,\s]+/).filter(part => part !== '').map(part => this.parseCoordinateValue(part));
+            if (this.isValidCoordinate(lat, lon)) {
+                waypoints.push({ lat, lon });
+            } else {
+                console.warn('Skipping invalid waypoint:', line);
+            }
+        }
+        return waypoints;
+    }
+
+    private getRoutingOptions(): RoutingOptions {
+        const routingCard = this.formattingSettings?.routingCard;
+        if (!routingCard) {
+            return {};
         }
+        return {
+            objective: (routingCard.objective.value?.value as RoutingObjective) || "fastest",
+            timeWeight: routingCard.timeWeight.value / 100,
+            vehicle: (routingCard.vehicle.value?.value as VehicleProfileId) || "car",
+            vehicleDimensions: { height: routingCard.vehicleHeight.value, weight: routingCard.vehicleWeight.value },
+            departure: this.getDeparture(),
+            maxSnapDistance: routingCard.maxSnapDistance.value,
+            avoidMotorways: routingCard.avoidMotorways.value,
+            avoidTolls: routingCard.avoidTolls.value,
+            avoidFerries: routingCard.avoidFerries.value
+        };
     }
 
-    private parseCoordinateValue(value: string): number {
-        if (!value || value.trim() === '') {
+    /**
+     * Departure time from the Routing card in seconds after Monday 00:00, or undefined when no day is set
+     */
+    private getDeparture(): number | undefined {
+        const routingCard = this.formattingSettings.routingCard;
+        const day = Number(routingCard.departureDay.value?.value);
+        const time = parseTimeOfDay(routingCard.departureTime.value);
+        return isNaN(day) || isNaN(time) ? undefined : day * 86400 + time;
+    }
+
+    private getStopOrderOptions(): StopOrderOptions {
+        const stopOrderCard = this.formattingSettings?.stopOrderCard;
+        if (!stopOrderCard) {
+            return this.stopOrderOptions;
+        }
+        return {
+            optimise: stopOrderCard.optimise.value,
+            mode: (stopOrderCard.mode.value?.value as StopOrderMode) || "fixedStartEnd"
+        };
+    }
+
+    private getAlternativeOptions(): AlternativeRouteOptions {
+        const alternativesCard = this.formattingSettings?.alternativesCard;
+        if (!alternativesCard) {
+            return this.alternativeOptions;
+        }
+        return {
+            count: alternativesCard.show.value ? Math.round(alternativesCard.count.value) : 0,
+            maxDetour: alternativesCard.maxDetour.value
+        };
+    }
+
+    /**
+     * Time bands are entered in minutes, e.g. "5, 10, 15", and passed on in seconds
+     */
+    private getIsochroneOptions(): IsochroneOptions {
+        const isochroneCard = this.formattingSettings?.isochroneCard;
+        if (!isochroneCard) {
+            return this.isochroneOptions;
+        }
+        const budgets = (isochroneCard.bands.value || '')
+            .split(/[,;\s]+/)
+            .map(part => parseFloat(part))
+            .filter(minutes => !isNaN(minutes) && minutes > 0)
+            .map(minutes => minutes * 60);
+        return {
+            enabled: isochroneCard.show.value,
+            budgets: budgets.length > 0 ? budgets : [5 * 60, 10 * 60, 15 * 60]
+        };
+    }
+
+    private getSummaryOptions(): RouteSummaryOptions {
+        const summaryCard = this.formattingSettings?.summaryCard;
+        if (!summaryCard) {
+            return this.summaryOptions;
+        }
+        return {
+            show: summaryCard.show.value,
+            position: (summaryCard.position.value?.value as SummaryPosition) || "topRight",
+            showDistance: summaryCard.showDistance.value,
+            showTime: summaryCard.showTime.value,
+            compareProfiles: summaryCard.compareProfiles.value,
+            fontSize: summaryCard.fontSize.value
+        };
+    }
+
+    private getMapStyle(): MapStyleOptions {
+        const routeLineCard = this.formattingSettings?.routeLineCard;
+        const markersCard = this.formattingSettings?.markersCard;
+        const mapCard = this.formattingSettings?.mapCard;
+        if (!routeLineCard || !markersCard || !mapCard) {
+            return this.mapStyle;
+        }
+
+        const style: MapStyleOptions = {
+            ...DEFAULT_MAP_STYLE,
+            lineColor: routeLineCard.colorByRoute.value ? null : routeLineCard.color.value.value,
+            lineWidth: routeLineCard.width.value,
+            lineOpacity: routeLineCard.opacity.value / 100,
+            lineDash: (routeLineCard.dash.value?.value as LineDash) || "solid",
+            startColor: markersCard.startColor.value.value,
+            endColor: markersCard.endColor.value.value,
+            waypointColor: markersCard.waypointColor.value.value,
+            markerSize: markersCard.size.value,
+            waypointSize: markersCard.waypointSize.value,
+            labels: (markersCard.labels.value?.value as MarkerLabels) || "waypoints",
+            baseMap: (mapCard.style.value?.value as BaseMap) || "open-street-map",
+            showLegend: mapCard.showLegend.value,
+            showToolbar: mapCard.showToolbar.value,
+            showExport: mapCard.showExport.value
+        };
+
+        // High contrast: only the theme's foreground and background, on a blank map, with every marker labelled
+        const palette = this.host.colorPalette;
+        if (palette.isHighContrast) {
+            return {
+                ...style,
+                lineColor: palette.foreground.value,
+                lineOpacity: 1,
+                startColor: palette.foreground.value,
+                endColor: palette.foreground.value,
+                waypointColor: palette.foreground.value,
+                labels: "all",
+                baseMap: "blank",
+                background: palette.background.value,
+                foreground: palette.foreground.value,
+                highlightColor: palette.foregroundSelected.value
+            };
+        }
+        return style;
+    }
+
+    private parseCoordinateValue(value: powerbi.PrimitiveValue): number {
+        if (typeof value === 'number') {
+            return value;
+        }
+        if (typeof value !== 'string' || value.trim() === '') {
             return NaN;
         }
         const parsed = parseFloat(value.trim());
@@ -190,6 +919,39 @@ export class Visual implements IVisual {
                lon >= -180 && lon <= 180;
     }
 
+    /**
+     * Show a centred title and detail line in place of the map
+     */
+    private renderMessage(title: string, detail: string): void {
+        if (!this.reactRoot) {
+            return;
+        }
+
+        const width = Math.max(this.width || 200, 200);
+        const height = Math.max(this.height || 200, 200);
+
+        this.reactRoot.render(
+            React.createElement(
+                "div",
+                { 
+                    style: { 
+                        width: width, 
+                        height: height, 
+                        display: "flex", 
+                        alignItems: "center", 
+                        justifyContent: "center",
+                        padding: "20px",
+                        boxSizing: "border-box"
+                    } 
+                },
+                React.createElement("div", { style: { textAlign: "center" } }, 
+                    React.createElement("div", { style: { marginBottom: "10px", fontWeight: "bold" } }, title),
+                    React.createElement("div", { style: { fontSize: "12px", color: "#666" } }, detail)
+                )
+            )
+        );
+    }
+
     private renderVisual(): void {
         if (!this.reactRoot) {
             return;
@@ -199,65 +961,149 @@ export class Visual implements IVisual {
         const width = Math.max(this.width || 200, 200);
         const height = Math.max(this.height || 200, 200);
 
-        if (!this.startCoord || !this.endCoord) {
-            this.reactRoot.render(
-                React.createElement(
-                    "div",
-                    { 
-                        style: { 
-                            width: width, 
-                            height: height, 
-                            display: "flex", 
-                            alignItems: "center", 
-                            justifyContent: "center",
-                            padding: "20px",
-                            boxSizing: "border-box"
-                        } 
-                    },
-                    React.createElement("div", { style: { textAlign: "center" } }, 
-                        React.createElement("div", { style: { marginBottom: "10px", fontWeight: "bold" } }, "Route Coordinates Required"),
-                        React.createElement("div", null, "Please enter start and end coordinates in the formatting pane.")
-                    )
-                )
-            );
+        if (this.routes.length === 0) {
+            this.renderMessage("Route Coordinates Required", "Please bind the Start/End Latitude and Longitude fields, or enter start and end coordinates in the formatting pane.");
             return;
         }
 
-        if (!this.graphData) {
-            this.reactRoot.render(
-                React.createElement(
-                    "div",
-                    { 
-                        style: { 
-                            width: width, 
-                            height: height, 
-                            display: "flex", 
-                            alignItems: "center", 
-                            justifyContent: "center",
-                            padding: "20px",
-                            boxSizing: "border-box"
-                        } 
-                    },
-                    React.createElement("div", { style: { textAlign: "center" } }, 
-                        React.createElement("div", { style: { marginBottom: "10px" } }, "Loading graph data..."),
-                        React.createElement("div", { style: { fontSize: "12px", color: "#666" } }, "Please ensure osm_graph.json is in the assets folder")
-                    )
-                )
+        if (!this.graphSummary) {
+            this.renderMessage(
+                this.graphError ? `Error loading graph data: ${this.graphError}` : "Loading graph data...",
+                GRAPH_SOURCE_HINTS[this.graphSourceKind]
             );
             return;
         }
 
         this.reactRoot.render(
             React.createElement(RouteVisualization, {
-                startCoord: this.startCoord,
-                endCoord: this.endCoord,
-                graphData: this.graphData,
+                routes: this.routes,
+                routingOptions: this.routingOptions,
+                stopOrderOptions: this.stopOrderOptions,
+                isochroneOptions: this.isochroneOptions,
+                alternativeOptions: this.alternativeOptions,
+                summaryOptions: this.summaryOptions,
+                mapStyle: this.mapStyle,
+                worker: this.routeWorker,
+                graphReady: this.graphSummary !== null,
+                graphDiagnostics: this.getGraphDiagnostics(this.graphSummary),
+                showDirections: this.formattingSettings?.directionsCard?.show.value !== false,
+                onMoveEndpoint: this.routesFromSettings ? (endpoint, point) => this.moveEndpoint(endpoint, point) : null,
+                interactions: this.getInteractions(),
+                onExport: this.exportAllowed ? (format, routes) => this.exportRoutes(format, routes) : null,
                 width: width,
                 height: height
             })
         );
     }
 
+    /**
+     * The loaded graph's diagnostics, with a warning when routes are calculated on the UI thread;
+     * null when the diagnostics are turned off
+     */
+    private getGraphDiagnostics(summary: GraphSummary): GraphDiagnostics | null {
+        if (this.formattingSettings?.graphSourceCard?.showDiagnostics.value === false) {
+            return null;
+        }
+        const reason = this.routeWorker.fallbackReason;
+        if (!reason) {
+            return summary.diagnostics;
+        }
+        const workerIssue: GraphIssue = {
+            code: "workerUnavailable",
+            severity: "warning",
+            message: `Routes are calculated on the report's UI thread, which may pause while they run (route worker unavailable: ${reason})`,
+            count: 1,
+            examples: []
+        };
+        return { ...summary.diagnostics, issues: [...summary.diagnostics.issues, workerIssue] };
+    }
+
+    /**
+     * Download the routes shown on the map through the report's download service
+     */
+    private exportRoutes(format: ExportFormat, routes: CalculatedRoute[]): void {
+        const exported: ExportedRoute[] = routes.map(({ request, result }) => ({ name: request.label, category: request.category, result }));
+        const { content, fileName, fileType, description } = {
+            geojson: { content: routesToGeoJson(exported), fileName: "routes.geojson", fileType: "json", description: "Routes as GeoJSON" },
+            gpx: { content: routesToGpx(exported), fileName: "routes.gpx", fileType: "xml", description: "Routes as GPX tracks" },
+            csv: { content: routesToCsv(exported), fileName: "routes.csv", fileType: "csv", description: "Route points with cumulative distance and time" }
+        }[format];
+        this.host.downloadService.exportVisualsContent(content, fileName, fileType, description).catch(error => {
+            console.warn('Route export failed:', error);
+        });
+    }
+
+    /**
+     * Selection, report tooltips and the context menu for the routes on the map
+     */
+    private getInteractions(): RouteInteractions {
+        const selected = this.selectionManager.getSelectionIds() as ISelectionId[];
+        const selectedRouteIds = selected.length === 0 ? [] : this.routes
+            .filter(route => (this.routeSelectionIds.get(route.id) || []).some(id => selected.some(other => other.equals(id))))
+            .map(route => route.id);
+
+        return {
+            selectedRouteIds,
+            highlightedRouteIds: this.highlightedRouteIds,
+            hostTooltips: this.host.tooltipService.enabled(),
+            onSelect: (routeId, multiSelect) => this.selectRoute(routeId, multiSelect, selectedRouteIds),
+            onHover: (route, event) => this.showTooltip(route, event),
+            onHoverEnd: () => this.host.tooltipService.hide({ isTouchEvent: false, immediately: true }),
+            onContextMenu: (routeId, event) => {
+                const selectionIds = routeId ? this.routeSelectionIds.get(routeId) : undefined;
+                this.selectionManager.showContextMenu(
+                    selectionIds && selectionIds.length > 0 ? selectionIds[0] : {} as ISelectionId,
+                    { x: event.clientX, y: event.clientY }
+                );
+            }
+        };
+    }
+
+    /**
+     * Select a route's rows, cross-filtering the other visuals on the page. Clicking the only
+     * selected route or the map background clears the selection; multi-select toggles the route.
+     */
+    private selectRoute(routeId: string | null, multiSelect: boolean, selectedRouteIds: string[]): void {
+        const selectionIds = routeId ? this.routeSelectionIds.get(routeId) : undefined;
+        const onlySelected = selectedRouteIds.length === 1 && selectedRouteIds[0] === routeId;
+        if (!selectionIds || selectionIds.length === 0 || (onlySelected && !multiSelect)) {
+            if (this.selectionManager.hasSelection()) {
+                this.selectionManager.clear().then(() => this.renderVisual());
+            }
+            return;
+        }
+        this.selectionManager.select(selectionIds, multiSelect).then(() => this.renderVisual());
+    }
+
+    private showTooltip(route: CalculatedRoute, event: MouseEvent): void {
+        const { request, result } = route;
+        const dataItems: VisualTooltipDataItem[] = [
+            { displayName: "Route", value: request.label, color: request.color },
+            ...(request.category !== undefined ? [{ displayName: "Category", value: request.category }] : []),
+            { displayName: "Distance", value: formatDistance(result.totalDistance) },
+            { displayName: "Travel time", value: formatDuration(result.totalTime) },
+            ...(result.departureTime !== undefined && result.arrivalTime !== undefined ? [
+                { displayName: "Departs", value: formatTimeOfWeek(result.departureTime) },
+                { displayName: "Arrives", value: formatTimeOfWeek(result.arrivalTime) }
+            ] : []),
+            ...(this.routeTooltipFields.get(request.id) || [])
+        ];
+        // Tooltip coordinates are relative to the visual's element
+        const bounds = this.target.getBoundingClientRect();
+        this.host.tooltipService.show({
+            coordinates: [event.clientX - bounds.left, event.clientY - bounds.top],
+            isTouchEvent: false,
+            dataItems,
+            identities: this.routeSelectionIds.get(request.id) || []
+        });
+    }
+
+    public destroy(): void {
+        this.reactRoot?.unmount();
+        this.reactRoot = null;
+        this.routeWorker.dispose();
+    }
+
     /**
      * Returns properties pane formatting model content hierarchies, properties and latest formatting values, Then populate properties pane.
      * This method is called once every time we open properties pane or when the user edit any format property. 
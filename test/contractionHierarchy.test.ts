@@ -0,0 +1,110 @@
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import { decodeContractionHierarchy, encodeContractionHierarchy } from "../src/contractionHierarchy";
+import { attachContractionHierarchy, calculateRoute, contractGraph, Coordinate, GraphData, RouteResult } from "../src/routingUtils";
+
+/**
+ * Small seeded random number generator (mulberry32), returning values in [0, 1)
+ */
+function seededRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * A grid of roads about 100 m apart with jittered nodes and mixed speeds. Some roads are
+ * one-way, footways or closed, and some node pairs have a second, longer road between them.
+ */
+function gridGraph(size: number, oneWayShare: number, seed: number): GraphData {
+    const random = seededRandom(seed);
+    const nodes: GraphData["nodes"] = {};
+    const edges: GraphData["edges"] = [];
+    for (let row = 0; row < size; row++) {
+        for (let col = 0; col < size; col++) {
+            const id = row * size + col + 1;
+            nodes[id] = { id, lat: 51.4 + row * 0.0009 + random() * 0.0002, lon: -0.3 + col * 0.0014 + random() * 0.0002 };
+        }
+    }
+    const road = (from: number, to: number) => {
+        const length = 100 + random() * 20;
+        const maxspeed = [30, 50, 130][Math.floor(random() * 3)];
+        const travel_time = length / (maxspeed / 3.6);
+        const kind = random();
+        const extra = kind < 0.05 ? { highway: "footway" } : kind < 0.08 ? { access: false } : {};
+        if (random() < oneWayShare) {
+            const [a, b] = random() < 0.5 ? [from, to] : [to, from];
+            edges.push({ from: a, to: b, length, travel_time, maxspeed, ...extra });
+            return;
+        }
+        edges.push({ from, to, length, travel_time, maxspeed, ...extra }, { from: to, to: from, length, travel_time, maxspeed, ...extra });
+        if (random() < 0.05) {
+            edges.push({ from, to, length: length * 1.1, travel_time: travel_time * 1.1, maxspeed });
+        }
+    };
+    for (let row = 0; row < size; row++) {
+        for (let col = 0; col < size; col++) {
+            const id = row * size + col + 1;
+            if (col + 1 < size) {
+                road(id, id + 1);
+            }
+            if (row + 1 < size) {
+                road(id, id + size);
+            }
+        }
+    }
+    return { nodes, edges, node_count: size * size, edge_count: edges.length };
+}
+
+function routeOrNull(graph: GraphData, start: Coordinate, end: Coordinate): RouteResult | null {
+    try {
+        return calculateRoute(graph, start, end);
+    } catch {
+        return null;
+    }
+}
+
+describe("contraction hierarchy", () => {
+    const size = 25;
+
+    for (const [oneWayShare, seed] of [[0, 1], [0.3, 2], [0.6, 3]]) {
+        it(`finds routes as fast as A* on random pairs (${oneWayShare * 100}% one-way roads)`, () => {
+            const plain = gridGraph(size, oneWayShare, seed);
+            const contracted = gridGraph(size, oneWayShare, seed);
+            attachContractionHierarchy(contracted, decodeContractionHierarchy(encodeContractionHierarchy(contractGraph(contracted))));
+
+            const random = seededRandom(seed * 1000);
+            const randomPoint = (): Coordinate => ({ lat: 51.4 + random() * size * 0.0009, lon: -0.3 + random() * size * 0.0014 });
+            let routed = 0;
+            for (let pair = 0; pair < 100; pair++) {
+                const start = randomPoint();
+                // Every tenth pair is on the same or a neighbouring road
+                const end = pair % 10 === 0 ? { lat: start.lat + 0.0001, lon: start.lon + 0.0002 } : randomPoint();
+                const expected = routeOrNull(plain, start, end);
+                const actual = routeOrNull(contracted, start, end);
+                assert.equal(actual === null, expected === null, `pair ${pair}: reachable with only one of the searches`);
+                if (!expected || !actual) {
+                    continue;
+                }
+                routed++;
+                assert.ok(Math.abs(actual.totalTime - expected.totalTime) <= 1e-6 * Math.max(1, expected.totalTime),
+                    `pair ${pair}: ${actual.totalTime} s with the hierarchy, ${expected.totalTime} s with A*`);
+                assert.deepEqual(actual.coordinates[0], expected.coordinates[0]);
+                assert.deepEqual(actual.coordinates[actual.coordinates.length - 1], expected.coordinates[expected.coordinates.length - 1]);
+                const edgeTime = actual.edges.reduce((total, edge) => total + edge.travelTime, 0);
+                assert.ok(Math.abs(edgeTime - actual.totalTime) <= 1e-6 * Math.max(1, actual.totalTime));
+            }
+            assert.ok(routed >= 50, `only ${routed} of 100 pairs were routed`);
+        });
+    }
+
+    it("rejects a hierarchy built for a different graph", () => {
+        const hierarchy = contractGraph(gridGraph(10, 0.3, 4));
+        assert.throws(() => attachContractionHierarchy(gridGraph(10, 0.3, 5), hierarchy), /built for a different graph/);
+    });
+});
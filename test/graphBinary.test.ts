@@ -0,0 +1,136 @@
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import { decodeGraphBinary, encodeGraphBinary, isGraphBinary } from "../src/graphBinary";
+import { GraphData } from "../src/routingUtils";
+
+/**
+ * Three nodes with OSM-sized ids, and edges already grouped by source node so the
+ * decoded edge order matches
+ */
+function sampleGraph(): GraphData {
+    return {
+        nodes: {
+            "5000000001": { id: 5000000001, lat: 51.501234567, lon: -0.141234567 },
+            "5000000002": { id: 5000000002, lat: 51.502345678, lon: -0.142345678 },
+            "7": { id: 7, lat: 51.503456789, lon: -0.143456789 }
+        },
+        edges: [
+            { from: 7, to: 5000000001, length: 1 / 3, travel_time: 0.1 + 0.2, maxspeed: 30, name: "Mall Road" },
+            { from: 5000000001, to: 5000000002, length: 123456.789012345, travel_time: 8888.123456789 },
+            { from: 5000000001, to: 7, length: 42.5, travel_time: 3.0000001, access: false, geometry: [[51.5, -0.14], [51.51, -0.15]] },
+            { from: 5000000002, to: 5000000001, length: 123456.789012345, travel_time: 8888.123456789, highway: "primary", maxspeed: 48.28 }
+        ],
+        node_count: 3,
+        edge_count: 4,
+        turn_restrictions: [{ via: 5000000001, from: 0, to: 2 }],
+        speed_profiles: { weekday: [1, 0.8, 0.6] }
+    };
+}
+
+/**
+ * Byte offset of the edge offsets and edge targets in an unquantised file
+ */
+function adjacencyOffsets(nodeCount: number): { offsets: number; targets: number } {
+    const align8 = (offset: number) => Math.ceil(offset / 8) * 8;
+    const coords = align8(24 + nodeCount * 8);
+    const offsets = align8(coords + nodeCount * 16);
+    return { offsets, targets: align8(offsets + (nodeCount + 1) * 4) };
+}
+
+describe("graphBinary", () => {
+    it("round-trips nodes, edges and extra fields exactly", () => {
+        const graph = sampleGraph();
+        const buffer = encodeGraphBinary(graph);
+        assert.ok(isGraphBinary(buffer));
+
+        const decoded = decodeGraphBinary(buffer);
+        // Node keys come back in JavaScript's key order, which the encoder followed too
+        const nodeOrder = Object.keys(graph.nodes).map(key => graph.nodes[key].id);
+        const expectedEdges = nodeOrder.flatMap(id => graph.edges.filter(edge => edge.from === id));
+        assert.deepEqual(decoded.nodes, graph.nodes);
+        assert.deepEqual(decoded.edges, expectedEdges);
+        assert.equal(decoded.node_count, 3);
+        assert.equal(decoded.edge_count, 4);
+        assert.deepEqual(decoded.speed_profiles, graph.speed_profiles);
+    });
+
+    it("renumbers turn restrictions to the stored edge order", () => {
+        const graph = sampleGraph();
+        const decoded = decodeGraphBinary(encodeGraphBinary(graph));
+        const [restriction] = decoded.turn_restrictions!;
+        const edgeKey = (edge: { from: number; to: number }) => `${edge.from}->${edge.to}`;
+        assert.equal(edgeKey(decoded.edges[restriction.from]), edgeKey(graph.edges[0]));
+        assert.equal(edgeKey(decoded.edges[restriction.to]), edgeKey(graph.edges[2]));
+        assert.equal(restriction.via, 5000000001);
+    });
+
+    it("leaves out edges whose nodes are missing", () => {
+        const graph = sampleGraph();
+        graph.edges.push({ from: 7, to: 99, length: 1, travel_time: 1 });
+        const decoded = decodeGraphBinary(encodeGraphBinary(graph));
+        assert.equal(decoded.edges.length, 4);
+        assert.ok(decoded.edges.every(edge => edge.to !== 99));
+    });
+
+    it("keeps quantised coordinates within 1e-7 degrees", () => {
+        const graph = sampleGraph();
+        const decoded = decodeGraphBinary(encodeGraphBinary(graph, { quantise: true }));
+        for (const key of Object.keys(graph.nodes)) {
+            assert.ok(Math.abs(decoded.nodes[key].lat - graph.nodes[key].lat) <= 0.5e-7);
+            assert.ok(Math.abs(decoded.nodes[key].lon - graph.nodes[key].lon) <= 0.5e-7);
+        }
+        assert.equal(decoded.edges[1].length, 123456.789012345);
+    });
+
+    it("reads version 1 files, whose lengths and travel times are 32-bit floats", () => {
+        // Two nodes and one edge in the version 1 layout, every section 8-byte aligned
+        const buffer = new ArrayBuffer(120);
+        const header = new DataView(buffer);
+        header.setUint32(0, 0x46524752, true);
+        header.setUint16(4, 1, true);
+        header.setUint32(8, 2, true);
+        header.setUint32(12, 1, true);
+        new Float64Array(buffer, 24, 2).set([11, 12]);
+        new Float64Array(buffer, 40, 4).set([51.5, -0.1, 51.6, -0.2]);
+        new Uint32Array(buffer, 72, 3).set([0, 1, 1]);
+        new Uint32Array(buffer, 88, 1).set([1]);
+        new Float32Array(buffer, 96, 1).set([123456.789]);
+        new Float32Array(buffer, 104, 1).set([8888.123]);
+        new Float32Array(buffer, 112, 1).set([NaN]);
+
+        const decoded = decodeGraphBinary(buffer);
+        assert.equal(decoded.edges.length, 1);
+        const [edge] = decoded.edges;
+        assert.equal(edge.from, 11);
+        assert.equal(edge.to, 12);
+        assert.ok(Math.abs(edge.length - 123456.789) < 0.01);
+        assert.ok(Math.abs(edge.travel_time - 8888.123) < 0.001);
+        assert.equal(edge.maxspeed, undefined);
+    });
+
+    it("rejects edges that lead to a node outside the file", () => {
+        const buffer = encodeGraphBinary(sampleGraph());
+        new Uint32Array(buffer, adjacencyOffsets(3).targets, 4)[2] = 3;
+        assert.throws(() => decodeGraphBinary(buffer), /corrupt: edge 2 leads to node 3, but the file has 3 nodes/);
+    });
+
+    it("rejects edge offsets that do not cover the edges", () => {
+        const buffer = encodeGraphBinary(sampleGraph());
+        new Uint32Array(buffer, adjacencyOffsets(3).offsets, 4)[3] = 5;
+        assert.throws(() => decodeGraphBinary(buffer), /corrupt: its edge offsets run from 0 to 5/);
+    });
+
+    it("rejects decreasing edge offsets", () => {
+        const buffer = encodeGraphBinary(sampleGraph());
+        const offsets = new Uint32Array(buffer, adjacencyOffsets(3).offsets, 4);
+        offsets[1] = 3;
+        offsets[2] = 2;
+        assert.throws(() => decodeGraphBinary(buffer), /corrupt: the edge offsets decrease after node 1/);
+    });
+
+    it("rejects truncated files and other data", () => {
+        const buffer = encodeGraphBinary(sampleGraph());
+        assert.throws(() => decodeGraphBinary(buffer.slice(0, 64)), /truncated/);
+        assert.throws(() => decodeGraphBinary(new TextEncoder().encode("{\"nodes\": {}}").buffer), /Not a binary graph/);
+    });
+});
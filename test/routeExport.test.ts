@@ -0,0 +1,131 @@
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import { ExportedRoute, RouteResult, routesToCsv, routesToGeoJson, routesToGpx } from "../src/routingUtils";
+
+/**
+ * A route over two roads leaving Monday 08:00, whose end is snapped part-way along the second road
+ */
+function timedRoute(): RouteResult {
+    const coordinates = [
+        { lat: 51.5, lon: -0.1 },
+        { lat: 51.501, lon: -0.1 },
+        { lat: 51.501, lon: -0.0995 }
+    ];
+    return {
+        coordinates,
+        nodeIds: [11, 12],
+        edges: [
+            { from: 11, to: 12, length: 150.25, travelTime: 90, endsAtNode: true, startIndex: 0, endIndex: 1 },
+            { from: 12, to: 13, length: 80, travelTime: 45.5, endsAtNode: false, startIndex: 1, endIndex: 2 }
+        ],
+        legs: [{ start: { lat: 51.4999, lon: -0.1001 }, end: { lat: 51.5011, lon: -0.0994 }, startIndex: 0, totalDistance: 230.25, totalTime: 135.5, arrivalTime: 28935.5 }],
+        totalDistance: 230.25,
+        totalTime: 135.5,
+        departureTime: 8 * 3600,
+        arrivalTime: 8 * 3600 + 135.5
+    };
+}
+
+/**
+ * A one-road route without a departure time
+ */
+function untimedRoute(): RouteResult {
+    const coordinates = [{ lat: 52, lon: 1 }, { lat: 52.01, lon: 1 }];
+    return {
+        coordinates,
+        nodeIds: [21, 22],
+        edges: [{ from: 21, to: 22, length: 1112, travelTime: 80, endsAtNode: true, startIndex: 0, endIndex: 1 }],
+        legs: [{ start: coordinates[0], end: coordinates[1], startIndex: 0, totalDistance: 1112, totalTime: 80 }],
+        totalDistance: 1112,
+        totalTime: 80
+    };
+}
+
+function sampleRoutes(): ExportedRoute[] {
+    return [
+        { name: "Depot \"A\", north", category: "Vans & <trucks>", result: timedRoute() },
+        { name: "Second", result: untimedRoute() }
+    ];
+}
+
+describe("routesToGeoJson", () => {
+    it("writes one LineString feature per route, in longitude-latitude order", () => {
+        const collection = JSON.parse(routesToGeoJson(sampleRoutes()));
+        assert.equal(collection.type, "FeatureCollection");
+        assert.equal(collection.features.length, 2);
+        const [first, second] = collection.features;
+        assert.equal(first.type, "Feature");
+        assert.deepEqual(first.geometry, {
+            type: "LineString",
+            coordinates: [[-0.1, 51.5], [-0.1, 51.501], [-0.0995, 51.501]]
+        });
+        assert.deepEqual(second.geometry.coordinates, [[1, 52], [1, 52.01]]);
+    });
+
+    it("gives each feature its name, category, totals, stops and timetable", () => {
+        const [first, second] = JSON.parse(routesToGeoJson(sampleRoutes())).features;
+        assert.deepEqual(first.properties, {
+            name: "Depot \"A\", north",
+            category: "Vans & <trucks>",
+            distance_m: 230.3,
+            travel_time_s: 135.5,
+            start_lat: 51.4999,
+            start_lon: -0.1001,
+            end_lat: 51.5011,
+            end_lon: -0.0994,
+            departure: "Mon 08:00",
+            arrival: "Mon 08:02"
+        });
+        assert.equal(second.properties.category, undefined);
+        assert.equal(second.properties.departure, undefined);
+        assert.equal(second.properties.arrival, undefined);
+    });
+
+    it("writes an empty collection when there are no routes", () => {
+        assert.deepEqual(JSON.parse(routesToGeoJson([])), { type: "FeatureCollection", features: [] });
+    });
+});
+
+describe("routesToGpx", () => {
+    it("writes one track per route with escaped names and 7-decimal points", () => {
+        const gpx = routesToGpx(sampleRoutes());
+        assert.ok(gpx.startsWith("<?xml version=\"1.0\" encoding=\"UTF-8\"?>\n<gpx version=\"1.1\""));
+        assert.ok(gpx.endsWith("</gpx>\n"));
+        assert.equal(gpx.match(/<trk>/g)?.length, 2);
+        assert.ok(gpx.includes("<name>Depot &quot;A&quot;, north</name>"));
+        assert.ok(gpx.includes("<type>Vans &amp; &lt;trucks&gt;</type>"));
+        assert.ok(gpx.includes("<desc>230 m, 2 min</desc>"));
+        assert.ok(gpx.includes("<desc>1.1 km, 1 min</desc>"));
+        assert.ok(gpx.includes("<trkpt lat=\"51.5010000\" lon=\"-0.0995000\"/>"));
+        assert.equal(gpx.match(/<trkpt /g)?.length, 5);
+    });
+
+    it("leaves out the type of routes without a category", () => {
+        const gpx = routesToGpx([{ name: "Second", result: untimedRoute() }]);
+        assert.ok(!gpx.includes("<type>"));
+    });
+});
+
+describe("routesToCsv", () => {
+    it("writes the start and the end of every road with cumulative totals and arrivals", () => {
+        const lines = routesToCsv(sampleRoutes()).split("\r\n");
+        assert.deepEqual(lines, [
+            "route,category,point,node_id,lat,lon,cumulative_distance_m,cumulative_time_s,arrival",
+            "\"Depot \"\"A\"\", north\",Vans & <trucks>,0,,51.5000000,-0.1000000,0.0,0.0,Mon 08:00",
+            "\"Depot \"\"A\"\", north\",Vans & <trucks>,1,12,51.5010000,-0.1000000,150.3,90.0,Mon 08:02",
+            "\"Depot \"\"A\"\", north\",Vans & <trucks>,2,,51.5010000,-0.0995000,230.3,135.5,Mon 08:02",
+            "Second,,0,,52.0000000,1.0000000,0.0,0.0,",
+            "Second,,1,22,52.0100000,1.0000000,1112.0,80.0,",
+            ""
+        ]);
+    });
+
+    it("has no arrival column when no route has a departure time", () => {
+        const [header, ...rows] = routesToCsv([{ name: "Second", result: untimedRoute() }]).trimEnd().split("\r\n");
+        assert.equal(header, "route,category,point,node_id,lat,lon,cumulative_distance_m,cumulative_time_s");
+        assert.deepEqual(rows, [
+            "Second,,0,,52.0000000,1.0000000,0.0,0.0",
+            "Second,,1,22,52.0100000,1.0000000,1112.0,80.0"
+        ]);
+    });
+});
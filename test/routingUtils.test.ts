@@ -0,0 +1,326 @@
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import { calculateAlternativeRoutes, calculateRoute, Coordinate, GraphData, GraphEdge, RouteResult, RoutingOptions, TurnRestriction } from "../src/routingUtils";
+
+/**
+ * Small seeded random number generator (mulberry32), returning values in [0, 1)
+ */
+function seededRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * A grid of two-way roads about 100 m apart with jittered nodes, winding roads up to twice
+ * the straight-line length and speeds from 10 to 130 km/h, so the fastest, shortest and
+ * weighted routes differ
+ */
+function randomGrid(size: number, seed: number): GraphData {
+    const random = seededRandom(seed);
+    const nodes: GraphData["nodes"] = {};
+    const edges: GraphEdge[] = [];
+    for (let row = 0; row < size; row++) {
+        for (let col = 0; col < size; col++) {
+            const id = row * size + col + 1;
+            nodes[id] = { id, lat: 51.4 + row * 0.0009 + random() * 0.0003, lon: -0.3 + col * 0.0014 + random() * 0.0003 };
+        }
+    }
+    const road = (from: number, to: number) => {
+        const length = (110 + random() * 20) * (1 + random());
+        const travel_time = length / ((10 + random() * 120) / 3.6);
+        edges.push({ from, to, length, travel_time }, { from: to, to: from, length, travel_time });
+    };
+    for (let row = 0; row < size; row++) {
+        for (let col = 0; col < size; col++) {
+            const id = row * size + col + 1;
+            if (col + 1 < size) {
+                road(id, id + 1);
+            }
+            if (row + 1 < size) {
+                road(id, id + size);
+            }
+        }
+    }
+    return { nodes, edges, node_count: size * size, edge_count: edges.length };
+}
+
+/**
+ * Cheapest cost between two nodes by plain Dijkstra over the graph's edge list, with a linear
+ * scan for the next node, as the reference for the indexed searches
+ */
+function referenceCost(graph: GraphData, from: number, to: number, cost: (edge: GraphEdge) => number): number {
+    const best = new Map<number, number>([[from, 0]]);
+    const done = new Set<number>();
+    for (;;) {
+        let current = -1;
+        let currentCost = Infinity;
+        best.forEach((value, node) => {
+            if (!done.has(node) && value < currentCost) {
+                current = node;
+                currentCost = value;
+            }
+        });
+        if (current === -1 || current === to) {
+            return currentCost;
+        }
+        done.add(current);
+        for (const edge of graph.edges) {
+            if (edge.from === current && currentCost + cost(edge) < (best.get(edge.to) ?? Infinity)) {
+                best.set(edge.to, currentCost + cost(edge));
+            }
+        }
+    }
+}
+
+// Speed that turns metres into seconds for the weighted objective, as routingUtils uses for cars
+const WEIGHTED_REFERENCE_SPEED = 50 / 3.6;
+
+const OBJECTIVES: Array<{ options: RoutingOptions; edgeCost: (edge: GraphEdge) => number; routeCost: (route: RouteResult) => number }> = [
+    { options: { objective: "fastest" }, edgeCost: edge => edge.travel_time, routeCost: route => route.totalTime },
+    { options: { objective: "shortest" }, edgeCost: edge => edge.length, routeCost: route => route.totalDistance },
+    ...[0.2, 0.8].map(timeWeight => ({
+        options: { objective: "weighted" as const, timeWeight },
+        edgeCost: (edge: GraphEdge) => timeWeight * edge.travel_time + (1 - timeWeight) * edge.length / WEIGHTED_REFERENCE_SPEED,
+        routeCost: (route: RouteResult) => timeWeight * route.totalTime + (1 - timeWeight) * route.totalDistance / WEIGHTED_REFERENCE_SPEED
+    }))
+];
+
+describe("route objectives", () => {
+    const size = 12;
+    const graph = randomGrid(size, 21);
+    const random = seededRandom(22);
+    const pairs = Array.from({ length: 25 }, () => [1 + Math.floor(random() * size * size), 1 + Math.floor(random() * size * size)]);
+
+    for (const { options, edgeCost, routeCost } of OBJECTIVES) {
+        const label = options.objective + (options.timeWeight !== undefined ? ` (time weight ${options.timeWeight})` : "");
+        it(`finds the cheapest ${label} route between nodes`, () => {
+            for (const [from, to] of pairs) {
+                const route = calculateRoute(graph, graph.nodes[from], graph.nodes[to], options);
+                const expected = referenceCost(graph, from, to, edgeCost);
+                const actual = routeCost(route);
+                assert.ok(Math.abs(actual - expected) <= 1e-6 * Math.max(1, expected), `${from} -> ${to}: ${actual}, cheapest ${expected}`);
+            }
+        });
+    }
+
+    it("trades time for distance between the objectives", () => {
+        const [from, to] = pairs.find(([a, b]) => a !== b)!;
+        const fastest = calculateRoute(graph, graph.nodes[from], graph.nodes[to], { objective: "fastest" });
+        const shortest = calculateRoute(graph, graph.nodes[from], graph.nodes[to], { objective: "shortest" });
+        assert.ok(fastest.totalTime <= shortest.totalTime + 1e-9);
+        assert.ok(shortest.totalDistance <= fastest.totalDistance + 1e-9);
+    });
+});
+
+/**
+ * randomGrid with some roads one-way, closed to cars or foot-only
+ */
+function restrictedGrid(size: number, seed: number): GraphData {
+    const graph = randomGrid(size, seed);
+    const random = seededRandom(seed + 1);
+    const edges: GraphEdge[] = [];
+    // randomGrid lists each road's two directions one after the other
+    for (let i = 0; i < graph.edges.length; i += 2) {
+        const kind = random();
+        const restriction = kind < 0.1 ? { access: false } : kind < 0.2 ? { highway: "footway" } : {};
+        const [forward, backward] = [graph.edges[i], graph.edges[i + 1]].map(edge => ({ ...edge, ...restriction }));
+        edges.push(...(random() < 0.3 ? [random() < 0.5 ? forward : backward] : [forward, backward]));
+    }
+    return { ...graph, edges, edge_count: edges.length };
+}
+
+describe("snapping", () => {
+    const graph = randomGrid(5, 31);
+    const start = graph.nodes[1];
+    const end = graph.nodes[25];
+    // About 550 m south of the grid's south-west corner
+    const farAway: Coordinate = { lat: start.lat - 0.005, lon: start.lon };
+
+    it("rejects points further from a road than the limit", () => {
+        assert.throws(() => calculateRoute(graph, farAway, end, { maxSnapDistance: 200 }),
+            /Point too far from road network: .* is more than 200 m from the nearest road/);
+        assert.throws(() => calculateRoute(graph, start, farAway, { maxSnapDistance: 500 }), /more than 500 m/);
+    });
+
+    it("accepts points within the limit, or anywhere without one", () => {
+        assert.doesNotThrow(() => calculateRoute(graph, farAway, end, { maxSnapDistance: 1000 }));
+        assert.doesNotThrow(() => calculateRoute(graph, farAway, end));
+        assert.doesNotThrow(() => calculateRoute(graph, farAway, end, { maxSnapDistance: 0 }));
+    });
+
+    it("starts and ends on the nearest road, part-way along it", () => {
+        const midpoint = { lat: (start.lat + graph.nodes[2].lat) / 2, lon: (start.lon + graph.nodes[2].lon) / 2 };
+        const route = calculateRoute(graph, midpoint, end);
+        assert.ok(Math.abs(route.coordinates[0].lat - midpoint.lat) < 1e-9 && Math.abs(route.coordinates[0].lon - midpoint.lon) < 1e-9);
+        assert.ok(route.edges[0].length < graph.edges[0].length);
+    });
+
+    it("only puts cars on roads they may drive, in the direction they may drive them", () => {
+        const size = 10;
+        const restricted = restrictedGrid(size, 33);
+        const drivableEdges = restricted.edges.filter(edge => edge.access !== false && edge.highway !== "footway");
+        const drivable = new Set(drivableEdges.map(edge => `${edge.from}->${edge.to}`));
+        const random = seededRandom(34);
+        const randomPoint = (): Coordinate => ({ lat: 51.4 + random() * size * 0.0009, lon: -0.3 + random() * size * 0.0014 });
+        const pairs: Coordinate[][] = Array.from({ length: 100 }, () => [randomPoint(), randomPoint()]);
+        // Trips back along one-way roads, from three quarters of the way to a quarter of the way along
+        const along = (edge: GraphEdge, share: number): Coordinate => {
+            const from = restricted.nodes[edge.from];
+            const to = restricted.nodes[edge.to];
+            return { lat: from.lat + share * (to.lat - from.lat), lon: from.lon + share * (to.lon - from.lon) };
+        };
+        const oneWay = drivableEdges.filter(edge => !drivable.has(`${edge.to}->${edge.from}`));
+        assert.ok(oneWay.length >= 10);
+        pairs.push(...oneWay.map(edge => [along(edge, 0.75), along(edge, 0.25)]));
+
+        let routed = 0;
+        pairs.forEach(([start, end], pair) => {
+            let route: RouteResult;
+            try {
+                route = calculateRoute(restricted, start, end, { vehicle: "car" });
+            } catch (error) {
+                assert.match((error as Error).message, /No path found/);
+                return;
+            }
+            routed++;
+            for (const edge of route.edges) {
+                assert.ok(drivable.has(`${edge.from}->${edge.to}`), `pair ${pair} drives ${edge.from} -> ${edge.to}`);
+            }
+        });
+        assert.ok(routed >= pairs.length / 2, `only ${routed} of ${pairs.length} pairs were routed`);
+    });
+});
+
+describe("alternative routes", () => {
+    const size = 12;
+    const graph = randomGrid(size, 41);
+    const random = seededRandom(42);
+    const pairs = Array.from({ length: 20 }, () => [graph.nodes[1 + Math.floor(random() * size * size)], graph.nodes[1 + Math.floor(random() * size * size)]])
+        .filter(([start, end]) => start !== end);
+    const roadKey = (edge: { from: number; to: number }) => `${edge.from}->${edge.to}`;
+
+    for (const [objective, costOf] of [["fastest", (route: RouteResult) => route.totalTime], ["shortest", (route: RouteResult) => route.totalDistance]] as const) {
+        it(`stay within the detour limit and differ from the ${objective} route`, () => {
+            const options: RoutingOptions = { objective };
+            const maxDetour = 1.4;
+            let alternativesFound = 0;
+            for (const [start, end] of pairs) {
+                const [best, ...alternatives] = calculateAlternativeRoutes(graph, start, end, { count: 2, maxDetour }, options);
+                const bestCost = costOf(calculateRoute(graph, start, end, options));
+                assert.ok(Math.abs(costOf(best) - bestCost) <= 1e-6 * bestCost, "the first route is the best route");
+                assert.ok(alternatives.length <= 2);
+                alternativesFound += alternatives.length;
+
+                const shown = [best];
+                for (const alternative of alternatives) {
+                    const cost = costOf(alternative);
+                    assert.ok(cost <= bestCost * maxDetour + 1e-6, `${cost} is more than ${maxDetour} times ${bestCost}`);
+                    // Each alternative shares at most 70% of its cost with the routes before it
+                    const usedRoads = new Set(shown.flatMap(route => route.edges.map(roadKey)));
+                    const edgeCost = (edge: RouteResult["edges"][number]) => objective === "fastest" ? edge.travelTime : edge.length;
+                    const shared = alternative.edges.filter(edge => usedRoads.has(roadKey(edge))).reduce((total, edge) => total + edgeCost(edge), 0);
+                    assert.ok(shared / cost <= 0.7 + 1e-9, `${Math.round(shared / cost * 100)}% shared with earlier routes`);
+                    assert.notDeepEqual(alternative.edges.map(roadKey), best.edges.map(roadKey));
+                    shown.push(alternative);
+                }
+            }
+            assert.ok(alternativesFound >= pairs.length, `only ${alternativesFound} alternatives for ${pairs.length} pairs`);
+        });
+    }
+
+    it("are not offered when no detour is allowed", () => {
+        for (const [start, end] of pairs.slice(0, 5)) {
+            assert.equal(calculateAlternativeRoutes(graph, start, end, { count: 2, maxDetour: 1 }).length, 1);
+            assert.equal(calculateAlternativeRoutes(graph, start, end, { count: 0, maxDetour: 2 }).length, 1);
+        }
+    });
+});
+
+/**
+ * A junction at node 2 between a road from the west (node 1), a road to the north (node 3)
+ * and, with `loop`, a road to the east (node 4) that leads round to the north through node 5.
+ * Roads are two-way unless listed in `oneWay`, as "from->to".
+ */
+function junctionGraph(loop: boolean, restrictions: Array<Omit<TurnRestriction, "from" | "to"> & { from: string; to: string }>, oneWay: string[] = []): GraphData {
+    const nodes: GraphData["nodes"] = {
+        1: { id: 1, lat: 0, lon: 0 },
+        2: { id: 2, lat: 0, lon: 0.002 },
+        3: { id: 3, lat: 0.002, lon: 0.002 }
+    };
+    const roads = [[1, 2], [2, 3]];
+    if (loop) {
+        nodes[4] = { id: 4, lat: 0, lon: 0.004 };
+        nodes[5] = { id: 5, lat: 0.002, lon: 0.004 };
+        roads.push([2, 4], [4, 5], [5, 3]);
+    }
+    const edges: GraphEdge[] = [];
+    for (const [from, to] of roads) {
+        edges.push({ from, to, length: 222, travel_time: 16 });
+        if (!oneWay.includes(`${from}->${to}`)) {
+            edges.push({ from: to, to: from, length: 222, travel_time: 16 });
+        }
+    }
+    const edgeIndex = (key: string) => edges.findIndex(edge => `${edge.from}->${edge.to}` === key);
+    return {
+        nodes,
+        edges,
+        node_count: Object.keys(nodes).length,
+        edge_count: edges.length,
+        turn_restrictions: restrictions.map(restriction => ({ ...restriction, from: edgeIndex(restriction.from), to: edgeIndex(restriction.to) }))
+    };
+}
+
+/**
+ * Whether a route turns from one road straight onto another, given as "from->to" keys
+ */
+function makesTurn(route: RouteResult, from: string, to: string): boolean {
+    return route.edges.some((edge, i) => i > 0 && `${route.edges[i - 1].from}->${route.edges[i - 1].to}` === from && `${edge.from}->${edge.to}` === to);
+}
+
+describe("turn restrictions", () => {
+    // Half-way along the road from the west, and half-way along the road to the north
+    const west = { lat: 0, lon: 0.001 };
+    const north = { lat: 0.001, lon: 0.002 };
+
+    it("turn where there is no restriction", () => {
+        const route = calculateRoute(junctionGraph(true, [{ via: 999, from: "4->5", to: "5->3" }]), west, north);
+        assert.ok(makesTurn(route, "1->2", "2->3"));
+        assert.ok(Math.abs(route.totalDistance - 222) < 1);
+    });
+
+    it("go round a forbidden turn", () => {
+        const graph = junctionGraph(true, [{ via: 2, from: "1->2", to: "2->3" }]);
+        const route = calculateRoute(graph, west, north);
+        assert.ok(!makesTurn(route, "1->2", "2->3"));
+        assert.ok(route.totalDistance > 222 + 1);
+        // The other way is not restricted
+        assert.ok(makesTurn(calculateRoute(graph, north, west), "3->2", "2->1"));
+    });
+
+    it("make only the turn an only-restriction allows", () => {
+        const route = calculateRoute(junctionGraph(true, [{ via: 2, from: "1->2", to: "2->4", type: "only" }]), west, north);
+        assert.ok(makesTurn(route, "1->2", "2->4"));
+        assert.ok(!makesTurn(route, "1->2", "2->3"));
+    });
+
+    it("give no route when there is no way round a forbidden turn", () => {
+        assert.throws(() => calculateRoute(junctionGraph(false, [{ via: 2, from: "1->2", to: "2->3" }]), west, north), /No path found/);
+    });
+
+    it("never send cars the wrong way along a one-way road", () => {
+        // Back along the one-way road to the north, from three quarters of the way to a quarter of the way
+        const ahead = { lat: 0.0015, lon: 0.002 };
+        const behind = { lat: 0.0005, lon: 0.002 };
+        const restrictions = [{ via: 2, from: "1->2", to: "2->1" }];
+        const around = calculateRoute(junctionGraph(true, restrictions, ["2->3"]), ahead, behind, { vehicle: "car" });
+        assert.ok(around.edges.every(edge => !(edge.from === 3 && edge.to === 2)));
+        assert.ok(around.totalDistance > 3 * 222);
+        assert.throws(() => calculateRoute(junctionGraph(false, restrictions, ["2->3"]), ahead, behind, { vehicle: "car" }), /No path found/);
+    });
+});
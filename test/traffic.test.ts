@@ -0,0 +1,177 @@
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import { calculateIsochrone, calculateRoute, Coordinate, GraphData, GraphEdge } from "../src/routingUtils";
+
+const HOUR = 3600;
+
+/**
+ * Speed factors by hour of the day: half speed from 08:00 to 10:00, full speed otherwise
+ */
+const RUSH_HOUR = Array.from({ length: 24 }, (_, hour) => hour >= 8 && hour < 10 ? 0.5 : 1);
+
+/**
+ * Nodes 1..count + 1 along the equator, 0.001 degrees (about 111 m) apart, joined by
+ * two-way roads that take `travelTime` seconds in free flow and slow down in the rush hour
+ */
+function chainGraph(count: number, travelTime: number): GraphData {
+    const nodes: GraphData["nodes"] = {};
+    const edges: GraphEdge[] = [];
+    for (let i = 1; i <= count + 1; i++) {
+        nodes[i] = { id: i, lat: 0, lon: (i - 1) * 0.001 };
+        if (i > 1) {
+            const road = { length: 111, travel_time: travelTime, speed_profile: "rush" };
+            edges.push({ from: i - 1, to: i, ...road }, { from: i, to: i - 1, ...road });
+        }
+    }
+    return { nodes, edges, node_count: count + 1, edge_count: edges.length, speed_profiles: { rush: RUSH_HOUR } };
+}
+
+const nodePoint = (graph: GraphData, id: number): Coordinate => ({ lat: graph.nodes[id].lat, lon: graph.nodes[id].lon });
+
+/**
+ * Small seeded random number generator (mulberry32), returning values in [0, 1)
+ */
+function seededRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * A grid of two-way roads about 100 m apart. Fast roads follow the rush-hour profile and
+ * a few ferries take hours, so routes cross hour boundaries part-way along a road.
+ */
+function trafficGrid(size: number, seed: number): GraphData {
+    const random = seededRandom(seed);
+    const nodes: GraphData["nodes"] = {};
+    const edges: GraphEdge[] = [];
+    for (let row = 0; row < size; row++) {
+        for (let col = 0; col < size; col++) {
+            const id = row * size + col + 1;
+            nodes[id] = { id, lat: 51.4 + row * 0.0009, lon: -0.3 + col * 0.0014 };
+        }
+    }
+    const road = (from: number, to: number) => {
+        const length = 100 + random() * 20;
+        const kind = random();
+        const extra: Partial<GraphEdge> = kind < 0.03
+            ? { ferry: true, travel_time: 2 * HOUR + random() * HOUR }
+            : kind < 0.5 ? { travel_time: length / (100 / 3.6), speed_profile: "rush" } : { travel_time: length / (30 / 3.6) };
+        const edge = { from, to, length, travel_time: 0, ...extra };
+        edges.push(edge, { ...edge, from: to, to: from });
+    };
+    for (let row = 0; row < size; row++) {
+        for (let col = 0; col < size; col++) {
+            const id = row * size + col + 1;
+            if (col + 1 < size) {
+                road(id, id + 1);
+            }
+            if (row + 1 < size) {
+                road(id, id + size);
+            }
+        }
+    }
+    return { nodes, edges, node_count: size * size, edge_count: edges.length, speed_profiles: { rush: RUSH_HOUR } };
+}
+
+describe("traffic", () => {
+    it("drives each hour of a road at that hour's speed", () => {
+        const graph = chainGraph(1, HOUR);
+        const time = (departure: number) => calculateRoute(graph, nodePoint(graph, 1), nodePoint(graph, 2), { departure }).totalTime;
+        // Half an hour at full speed covers half the road; the rest takes twice as long in the rush hour
+        assert.equal(time(7.5 * HOUR), 0.5 * HOUR + HOUR);
+        // Two hours in the rush hour cover the whole road
+        assert.equal(time(8 * HOUR), 2 * HOUR);
+        // An hour in the rush hour covers half the road; the rest is at full speed from 10:00
+        assert.equal(time(9 * HOUR), HOUR + 0.5 * HOUR);
+        assert.equal(time(10 * HOUR), HOUR);
+        // No traffic without a departure time
+        assert.equal(calculateRoute(graph, nodePoint(graph, 1), nodePoint(graph, 2)).totalTime, HOUR);
+    });
+
+    it("never gets a later departure there earlier", () => {
+        const size = 15;
+        const graph = trafficGrid(size, 11);
+        const random = seededRandom(12);
+        const randomPoint = (): Coordinate => ({ lat: 51.4 + random() * size * 0.0009, lon: -0.3 + random() * size * 0.0014 });
+        for (let pair = 0; pair < 40; pair++) {
+            const start = randomPoint();
+            const end = randomPoint();
+            let previousArrival = -Infinity;
+            // Departures every ten minutes across the start and end of the rush hour
+            for (const hour of [7, 9]) {
+                for (let minute = 0; minute < 120; minute += 10) {
+                    const departure = hour * HOUR + minute * 60;
+                    const route = calculateRoute(graph, start, end, { departure });
+                    assert.ok(route.arrivalTime! >= previousArrival - 1e-6,
+                        `pair ${pair}: leaving at ${departure} s arrives at ${route.arrivalTime} s, before ${previousArrival} s`);
+                    previousArrival = route.arrivalTime!;
+                }
+                previousArrival = -Infinity;
+            }
+        }
+    });
+
+    it("times routes in seconds whatever the objective costs", () => {
+        // The direct road is short but slow; the way round is long but fast
+        const graph: GraphData = {
+            nodes: {
+                1: { id: 1, lat: 0, lon: 0 },
+                2: { id: 2, lat: 0, lon: 0.01 },
+                3: { id: 3, lat: 0.005, lon: 0.005 }
+            },
+            edges: [
+                { from: 1, to: 2, length: 1113, travel_time: 400, speed_profile: "rush" },
+                { from: 2, to: 1, length: 1113, travel_time: 400, speed_profile: "rush" },
+                { from: 1, to: 3, length: 790, travel_time: 30, highway: "motorway" },
+                { from: 3, to: 2, length: 790, travel_time: 30, highway: "motorway" }
+            ],
+            node_count: 3,
+            edge_count: 4,
+            speed_profiles: { rush: RUSH_HOUR }
+        };
+        const start = nodePoint(graph, 1);
+        const end = nodePoint(graph, 2);
+
+        const shortest = calculateRoute(graph, start, end, { objective: "shortest" });
+        assert.equal(shortest.totalDistance, 1113);
+        assert.equal(shortest.totalTime, 400);
+
+        // Timed in traffic once found, though the search itself compares metres
+        const shortestInTraffic = calculateRoute(graph, start, end, { objective: "shortest", departure: 8 * HOUR });
+        assert.equal(shortestInTraffic.totalTime, 800);
+        assert.equal(shortestInTraffic.arrivalTime, 8 * HOUR + 800);
+
+        // Avoided motorways cost ten times their 60 s, less than the direct road's 800 s in the
+        // rush hour, and are timed at the 60 s they take to drive
+        const avoiding = calculateRoute(graph, start, end, { avoidMotorways: true, departure: 8 * HOUR });
+        assert.equal(avoiding.totalDistance, 1580);
+        assert.equal(avoiding.totalTime, 60);
+        assert.equal(avoiding.arrivalTime, 8 * HOUR + 60);
+    });
+
+    it("measures reachability bands on the same clock as routes", () => {
+        const graph = chainGraph(10, 100);
+        const origin = nodePoint(graph, 1);
+        const budget = 450;
+        for (const departure of [3 * HOUR, 8 * HOUR, 8 * HOUR + 50 * 60]) {
+            const [band] = calculateIsochrone(graph, origin, [budget], { departure }).bands;
+            // Every road whose far end a route leaving at the same time reaches within the budget
+            let reachedRoads = 0;
+            for (let id = 2; id <= 11; id++) {
+                if (calculateRoute(graph, origin, nodePoint(graph, id), { departure }).totalTime <= budget) {
+                    reachedRoads++;
+                }
+            }
+            assert.equal(Math.round(band.roadLength), reachedRoads * 111, `departure ${departure} s`);
+        }
+        const offPeak = calculateIsochrone(graph, origin, [budget], { departure: 3 * HOUR }).bands[0].roadLength;
+        const rushHour = calculateIsochrone(graph, origin, [budget], { departure: 8 * HOUR }).bands[0].roadLength;
+        assert.ok(rushHour < offPeak, `${rushHour} m in the rush hour, ${offPeak} m off-peak`);
+    });
+});
@@ -0,0 +1,130 @@
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import { calculateRoute, GraphData, GraphEdge, RoutingOptions } from "../src/routingUtils";
+import { profileSpeed, VEHICLE_PROFILES, VehicleProfileId } from "../src/vehicleProfiles";
+
+/**
+ * A road from node 1 at longitude 0 to node 2 at longitude 0.01 (about 695 m east) with the given
+ * attributes, and back again unless it is one-way. With `detour`, a two-way residential detour
+ * between the same nodes runs through node 3, about 1.1 km to the north.
+ */
+function roadGraph(road: Partial<GraphEdge>, { oneWay = false, detour = true } = {}): GraphData {
+    const nodes: GraphData["nodes"] = {
+        1: { id: 1, lat: 51.5, lon: 0 },
+        2: { id: 2, lat: 51.5, lon: 0.01 }
+    };
+    const edges: GraphEdge[] = [{ from: 1, to: 2, length: 695, travel_time: 50, maxspeed: 50, ...road }];
+    if (!oneWay) {
+        edges.push({ ...edges[0], from: 2, to: 1 });
+    }
+    if (detour) {
+        nodes[3] = { id: 3, lat: 51.51, lon: 0.005 };
+        const residential = { length: 1200, travel_time: 86, maxspeed: 50, highway: "residential" };
+        edges.push(
+            { from: 2, to: 3, ...residential },
+            { from: 3, to: 2, ...residential },
+            { from: 3, to: 1, ...residential },
+            { from: 1, to: 3, ...residential }
+        );
+    }
+    return { nodes, edges, node_count: Object.keys(nodes).length, edge_count: edges.length };
+}
+
+// Two points on the road between nodes 1 and 2, about 417 m apart
+const west = { lat: 51.5, lon: 0.002 };
+const east = { lat: 51.5, lon: 0.008 };
+
+/**
+ * Whether the route from west to east (or the other way) keeps to the road between nodes 1 and 2
+ * rather than taking the detour; null when there is no route at all
+ */
+function takesRoad(graph: GraphData, options: RoutingOptions, eastbound = true): boolean | null {
+    try {
+        const route = eastbound ? calculateRoute(graph, west, east, options) : calculateRoute(graph, east, west, options);
+        return route.totalDistance < 500;
+    } catch (error) {
+        assert.match((error as Error).message, /No path found/);
+        return null;
+    }
+}
+
+const ALL_VEHICLES: VehicleProfileId[] = ["car", "truck", "bicycle", "walking"];
+
+describe("one-way roads", () => {
+    it("give cars and trucks no route against their direction", () => {
+        for (const vehicle of ["car", "truck"] as const) {
+            assert.equal(takesRoad(roadGraph({}, { oneWay: true, detour: false }), { vehicle }, false), null, vehicle);
+        }
+    });
+
+    it("send cars and trucks around rather than the wrong way", () => {
+        for (const vehicle of ["car", "truck"] as const) {
+            const route = calculateRoute(roadGraph({}, { oneWay: true }), east, west, { vehicle });
+            assert.deepEqual(route.nodeIds, [2, 3, 1], vehicle);
+            assert.ok(route.edges.every(edge => !(edge.from === 2 && edge.to === 1)), vehicle);
+        }
+    });
+
+    it("may be used both ways by bicycles and pedestrians", () => {
+        for (const vehicle of ["bicycle", "walking"] as const) {
+            const graph = roadGraph({}, { oneWay: true, detour: false });
+            assert.equal(takesRoad(graph, { vehicle }), true, vehicle);
+            assert.equal(takesRoad(graph, { vehicle }, false), true, vehicle);
+        }
+    });
+});
+
+describe("closed roads", () => {
+    it("are closed to cars and trucks but open to bicycles and pedestrians", () => {
+        const graph = roadGraph({ access: false });
+        assert.deepEqual(ALL_VEHICLES.map(vehicle => takesRoad(graph, { vehicle })), [false, false, true, true]);
+    });
+});
+
+describe("road classes", () => {
+    it("keep each profile off the classes it excludes", () => {
+        const cases: Array<[string, boolean[]]> = [
+            ["footway", [false, false, true, true]],
+            ["cycleway", [false, false, true, true]],
+            ["steps", [false, false, false, true]],
+            ["motorway", [true, true, false, false]],
+            ["residential", [true, true, true, true]]
+        ];
+        for (const [highway, expected] of cases) {
+            const graph = roadGraph({ highway });
+            assert.deepEqual(ALL_VEHICLES.map(vehicle => takesRoad(graph, { vehicle })), expected, highway);
+        }
+    });
+
+    it("leave nothing to snap to when the only road is excluded", () => {
+        assert.throws(() => calculateRoute(roadGraph({ highway: "footway" }, { detour: false }), west, east, { vehicle: "car" }),
+            /Could not find a road near the given coordinates/);
+    });
+
+    it("set each profile's speed", () => {
+        assert.equal(profileSpeed(VEHICLE_PROFILES.car, "motorway", 120), 120);
+        assert.equal(profileSpeed(VEHICLE_PROFILES.truck, "motorway", 120), 80);
+        assert.equal(profileSpeed(VEHICLE_PROFILES.truck, "unclassified", 100), 80);
+        assert.equal(profileSpeed(VEHICLE_PROFILES.bicycle, "residential", 50), 16);
+        assert.equal(profileSpeed(VEHICLE_PROFILES.walking, "steps", 50), 2);
+        assert.equal(profileSpeed(VEHICLE_PROFILES.car, "footway", 50), 0);
+    });
+});
+
+describe("height and weight limits", () => {
+    it("keep trucks of the default size off low and weak roads", () => {
+        assert.equal(takesRoad(roadGraph({ maxheight: 3.5 }), { vehicle: "truck" }), false);
+        assert.equal(takesRoad(roadGraph({ maxweight: 7.5 }), { vehicle: "truck" }), false);
+    });
+
+    it("let trucks within the limits through", () => {
+        const small = { vehicle: "truck" as const, vehicleDimensions: { height: 3.2, weight: 7 } };
+        assert.equal(takesRoad(roadGraph({ maxheight: 3.5 }), small), true);
+        assert.equal(takesRoad(roadGraph({ maxweight: 7.5 }), small), true);
+        assert.equal(takesRoad(roadGraph({ maxheight: 3.5, maxweight: 7.5 }), { ...small, vehicleDimensions: { height: 3.8, weight: 7 } }), false);
+    });
+
+    it("do not apply to cars", () => {
+        assert.equal(takesRoad(roadGraph({ maxheight: 2, maxweight: 1 }), { vehicle: "car" }), true);
+    });
+});